@@ -0,0 +1,110 @@
+// Imports upgrade steps from Sitecore documentation pages saved to disk (HTML or Markdown) and
+// prints a patch against the framework's data file for review.
+//
+//   npm run import:docs -- page.html                      infer framework and versions from the page
+//   npm run import:docs -- page.md --framework nextjs --from 22.8 --to 22.9
+//   npm run import:docs -- page.html > docs-sync.patch    review, then git apply docs-sync.patch
+//   npm run import:docs -- page.html --write              update the data file in place
+//
+// The summary goes to stderr so the patch on stdout can be redirected to a file.
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { importUpgradeGuide, DocImportOptions } from '../src/lib/doc-importer';
+import { createDatasetPatch, formatDataset, mergeImportedSteps } from '../src/lib/step-sync';
+import { lintUpgradeSteps } from '../src/lib/step-linter';
+import { getFramework, getSupportedRange } from '../src/lib/frameworks';
+import { FrameworkDefinition } from '../src/types/framework';
+import { UpgradeStep } from '../src/types/upgrade-step';
+
+function parseArgs(args: string[]): { files: string[]; options: DocImportOptions; write: boolean } {
+  const files: string[] = [];
+  const options: DocImportOptions = {};
+  let write = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--framework') {
+      options.framework = args[++i];
+    } else if (args[i] === '--from') {
+      options.from = args[++i];
+    } else if (args[i] === '--to') {
+      options.to = args[++i];
+    } else if (args[i] === '--write') {
+      write = true;
+    } else {
+      files.push(args[i]);
+    }
+  }
+
+  return { files, options, write };
+}
+
+function main() {
+  const { files, options, write } = parseArgs(process.argv.slice(2));
+  if (files.length === 0) {
+    console.error('Usage: tsx scripts/import-docs.ts <page.html|page.md>... [--framework id] [--from version] [--to version] [--write]');
+    process.exit(1);
+  }
+
+  // Pages for the same framework are merged one after the other into one dataset
+  const datasets = new Map<string, { framework: FrameworkDefinition; before: UpgradeStep[]; after: UpgradeStep[] }>();
+  let failed = false;
+
+  const getDataset = (framework: FrameworkDefinition) => {
+    const dataFile = `src/data/${framework.dataSource}`;
+    if (!datasets.has(dataFile)) {
+      const steps = JSON.parse(readFileSync(dataFile, 'utf-8')) as UpgradeStep[];
+      datasets.set(dataFile, { framework, before: steps, after: steps });
+    }
+    return { dataFile, dataset: datasets.get(dataFile)! };
+  };
+  const getExistingIds = (id: string) => {
+    const framework = getFramework(id);
+    return framework ? getDataset(framework).dataset.after.flatMap(step => (step.id ? [step.id] : [])) : [];
+  };
+
+  files.forEach(file => {
+    const guide = importUpgradeGuide(readFileSync(file, 'utf-8'), file, { ...options, getExistingIds });
+    console.error(`${file}: "${guide.title}"`);
+    guide.warnings.forEach(warning => console.error(`  warning  ${warning}`));
+
+    const framework = guide.framework ? getFramework(guide.framework) : undefined;
+    if (!framework || !guide.from || !guide.to) {
+      failed = true;
+      return;
+    }
+
+    const { dataFile, dataset } = getDataset(framework);
+    const result = mergeImportedSteps(dataset.after, guide.steps);
+    dataset.after = result.steps;
+
+    console.error(`  ${framework.name} ${guide.from} → ${guide.to}: ${guide.steps.length} steps found, ${result.added.length} new, ${result.updated.length} changed, ${result.unchanged.length} unchanged`);
+    result.onlyInDataset.forEach(step => console.error(`  only in ${path.basename(dataFile)}  ${step.instruction}`));
+  });
+
+  datasets.forEach(({ framework, before, after }, dataFile) => {
+    // The merged dataset has to pass the same checks as npm run lint:steps before it replaces the file
+    const errors = lintUpgradeSteps(after, { expectedRange: getSupportedRange(framework), framework: framework.id })
+      .filter(issue => issue.severity === 'error');
+    errors.forEach(issue => {
+      const location = issue.stepIndex !== undefined ? `step ${issue.stepIndex}` : 'dataset';
+      console.error(`  ${path.basename(dataFile)} ${location}  error  ${issue.message}  (${issue.rule})`);
+    });
+
+    if (write && errors.length > 0) {
+      console.error(`Not writing ${dataFile}: the merged steps have ${errors.length} error(s)`);
+      failed = true;
+    } else if (write) {
+      writeFileSync(dataFile, formatDataset(after), 'utf-8');
+      console.error(`Updated ${dataFile}, review it with git diff and npm run lint:steps`);
+    } else {
+      process.stdout.write(createDatasetPatch(dataFile, before, after));
+    }
+  });
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,99 @@
+// Lints the upgrade-steps data files and the compatibility matrix. Exits non-zero when any file has errors.
+//
+//   npm run lint:steps                      lint the bundled datasets
+//   npm run lint:steps -- --max-warnings 0  also fail on warnings such as known version gaps
+//   npm run lint:steps -- path/to/file.json lint other files against the schema
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { LintIssue, lintCompatibility, lintUpgradeSteps } from '../src/lib/step-linter';
+import { FRAMEWORKS, getSupportedRange } from '../src/lib/frameworks';
+
+interface Dataset {
+  file: string;
+  lint: (data: unknown) => LintIssue[];
+}
+
+// Every registered dataset is expected to cover the versions the selector offers, and the
+// compatibility matrix to describe each of them
+const DATASETS: Dataset[] = [
+  ...FRAMEWORKS.map(framework => ({
+    file: `src/data/${framework.dataSource}`,
+    lint: (data: unknown) => lintUpgradeSteps(data, { expectedRange: getSupportedRange(framework), framework: framework.id }),
+  })),
+  {
+    file: 'src/data/compatibility.json',
+    lint: (data: unknown) => lintCompatibility(data, FRAMEWORKS),
+  },
+];
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): { files: string[]; maxWarnings: number } {
+  const files: string[] = [];
+  let maxWarnings = Infinity;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--max-warnings') {
+      const value = args[++i];
+      if (!value || !/^\d+$/.test(value)) {
+        throw new UsageError('--max-warnings needs a number of warnings, e.g. --max-warnings 0');
+      }
+      maxWarnings = Number(value);
+    } else {
+      files.push(args[i]);
+    }
+  }
+
+  return { files, maxWarnings };
+}
+
+function formatIssue(issue: LintIssue): string {
+  const location = issue.stepIndex !== undefined ? `step ${issue.stepIndex}` : 'dataset';
+  return `  ${location.padEnd(10)} ${issue.severity.padEnd(8)} ${issue.message}  (${issue.rule})`;
+}
+
+function main() {
+  let options: { files: string[]; maxWarnings: number };
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(error.message);
+    process.exit(2);
+  }
+  const { files, maxWarnings } = options;
+  const datasets = files.length > 0
+    ? files.map(file => DATASETS.find(dataset => path.resolve(dataset.file) === path.resolve(file)) || { file, lint: (data: unknown) => lintUpgradeSteps(data) })
+    : DATASETS;
+
+  let errorCount = 0;
+  let warningCount = 0;
+
+  datasets.forEach(dataset => {
+    let issues: LintIssue[];
+    try {
+      const data = JSON.parse(readFileSync(dataset.file, 'utf-8'));
+      issues = dataset.lint(data);
+    } catch (error) {
+      issues = [{ severity: 'error', rule: 'parse', message: error instanceof Error ? error.message : String(error) }];
+    }
+
+    if (issues.length === 0) return;
+
+    console.log(`\n${dataset.file}`);
+    issues
+      .sort((a, b) => (a.stepIndex ?? Infinity) - (b.stepIndex ?? Infinity))
+      .forEach(issue => console.log(formatIssue(issue)));
+    errorCount += issues.filter(issue => issue.severity === 'error').length;
+    warningCount += issues.filter(issue => issue.severity === 'warning').length;
+  });
+
+  console.log(`\n${errorCount} error(s), ${warningCount} warning(s) in ${datasets.length} file(s)`);
+
+  if (errorCount > 0 || warningCount > maxWarnings) {
+    process.exit(1);
+  }
+}
+
+main();
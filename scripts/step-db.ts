@@ -0,0 +1,49 @@
+// Manages the SQLite step database used when STEP_REPOSITORY=sqlite.
+//
+//   npm run db:migrate                  create the database or bring its schema up to date
+//   npm run db:seed                     replace every framework's steps with the JSON data files
+//   npm run db:seed -- nextjs angular   only reseed the given frameworks
+//
+// The database lives at STEP_DATABASE_PATH, .data/steps.db by default.
+
+import { getStepDatabasePath, migrateStepDatabase, openStepDatabase, seedStepsFromJson } from '../src/lib/step-database';
+import { FRAMEWORKS, getFramework } from '../src/lib/frameworks';
+import { FrameworkDefinition } from '../src/types/framework';
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'migrate' && command !== 'seed') {
+    console.error('Usage: tsx scripts/step-db.ts <migrate|seed> [framework...]');
+    process.exit(1);
+  }
+
+  const frameworks: FrameworkDefinition[] = [];
+  for (const id of args) {
+    const framework = getFramework(id);
+    if (!framework) {
+      console.error(`Unknown framework: ${id}`);
+      process.exit(1);
+    }
+    frameworks.push(framework);
+  }
+
+  const file = getStepDatabasePath();
+  const db = openStepDatabase(file);
+
+  // Seeding needs the current schema too, so both commands migrate first
+  const applied = migrateStepDatabase(db);
+  console.log(applied.length > 0
+    ? `${file}: applied migrations ${applied.join(', ')}`
+    : `${file}: schema is up to date`);
+
+  if (command === 'seed') {
+    const counts = seedStepsFromJson(db, frameworks.length > 0 ? frameworks : FRAMEWORKS);
+    Object.entries(counts).forEach(([framework, count]) => {
+      console.log(`  ${framework}: ${count} steps`);
+    });
+  }
+
+  db.close();
+}
+
+main();
@@ -0,0 +1,245 @@
+// Prints the upgrade plan for a local project, using the bundled step data only (no network).
+//
+//   npm run plan -- --project ../my-app --to 22.9               plan from the version in package.json
+//   npm run plan -- --project ../my-app --to 22.9 --format markdown > UPGRADE.md
+//   npx tsx path/to/scripts/upgrade-plan.ts --to 22.9 --format json   from inside the project
+//   npm run plan -- --project ../my-app --check 22.6            exit 1 when the project is older than 22.6
+//   npm run plan -- --project ../my-app --to 22.6               rollback plan for a project on a later version
+//   npm run plan -- --project ../my-app --from 22.6 --to 22.9 --verify   check which steps were done
+//
+// Other options: --framework <id> and --from <version> override what package.json says,
+// --consolidate <none|type|file|full> controls step merging. Exit codes: 0 ok, 1 behind the
+// --check minimum or a --verify check failed, 2 usage or detection error.
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import { getUpgradePlan } from '../src/lib/data-layer';
+import { detectProject, isIgnoredPath } from '../src/lib/project-scanner';
+import { exportPlan } from '../src/lib/plan-exporters';
+import { verifySteps } from '../src/lib/step-verification';
+import { getFramework, getFrameworkName } from '../src/lib/frameworks';
+import { getStepTypeLabel } from '../src/lib/step-types';
+import { compareVersions, formatVersion, tryParseVersion } from '../src/lib/version';
+import { CONSOLIDATION_MODES, ConsolidationMode, UpgradePlan } from '../src/types/upgrade-step';
+import { ProjectSnapshot } from '../src/types/project';
+import { StepVerification, VerificationStatus } from '../src/types/verification';
+
+type OutputFormat = 'text' | 'markdown' | 'json';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'markdown', 'json'];
+
+// Same limit as uploaded projects, larger files are listed without their contents
+const MAX_TEXT_FILE_SIZE = 512 * 1024;
+
+const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  'pass': 'PASS',
+  'fail': 'FAIL',
+  'unknown': '????',
+};
+
+interface CliOptions {
+  project: string;
+  to?: string;
+  from?: string;
+  framework?: string;
+  format: OutputFormat;
+  consolidate: ConsolidationMode;
+  check?: string;
+  verify: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { project: process.cwd(), format: 'text', consolidate: 'full', verify: false };
+  const readValue = (index: number): string => {
+    const value = args[index + 1];
+    if (!value || value.startsWith('--')) {
+      throw new UsageError(`${args[index]} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--project':
+        options.project = path.resolve(readValue(i++));
+        break;
+      case '--to':
+        options.to = readValue(i++);
+        break;
+      case '--from':
+        options.from = readValue(i++);
+        break;
+      case '--framework':
+        options.framework = readValue(i++);
+        break;
+      case '--format':
+        options.format = readValue(i++) as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(options.format)) {
+          throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+        }
+        break;
+      case '--consolidate':
+        options.consolidate = readValue(i++) as ConsolidationMode;
+        if (!CONSOLIDATION_MODES.includes(options.consolidate)) {
+          throw new UsageError(`--consolidate must be one of: ${CONSOLIDATION_MODES.join(', ')}`);
+        }
+        break;
+      case '--check':
+        options.check = readValue(i++);
+        break;
+      case '--verify':
+        options.verify = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option ${args[i]}`);
+    }
+  }
+
+  if (options.verify && options.check) {
+    throw new UsageError('--verify and --check can\'t be combined, run them one after the other');
+  }
+  if (options.verify && options.format === 'markdown') {
+    throw new UsageError('--verify prints text or json, --format markdown can\'t be combined with it');
+  }
+
+  return options;
+}
+
+// Project files relative to its root, so steps for files the project doesn't have are marked
+function listProjectFiles(root: string, directory: string = ''): string[] {
+  return readdirSync(path.join(root, directory), { withFileTypes: true }).flatMap(entry => {
+    const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+    if (isIgnoredPath(relativePath)) return [];
+    if (entry.isDirectory()) return listProjectFiles(root, relativePath);
+    return entry.isFile() ? [relativePath] : [];
+  });
+}
+
+function readProjectSnapshot(root: string, projectFiles: string[]): ProjectSnapshot {
+  const files: Record<string, string> = {};
+  projectFiles.forEach(file => {
+    const filePath = path.join(root, file);
+    files[file] = statSync(filePath).size <= MAX_TEXT_FILE_SIZE ? readFileSync(filePath, 'utf-8') : '';
+  });
+  return { files, hasSourceFiles: true };
+}
+
+function formatVerifications(verifications: StepVerification[], framework: string, fromVersion: string, toVersion: string): string {
+  const failed = verifications.filter(verification => verification.status === 'fail').length;
+  const lines = [
+    `${getFrameworkName(framework)} ${fromVersion} → ${toVersion}: ${verifications.length} steps with checks, ${failed} failed`,
+    '',
+  ];
+
+  verifications.forEach(verification => {
+    lines.push(`${VERIFICATION_LABELS[verification.status]} ${String(verification.stepIndex + 1).padStart(3)}. ${verification.instruction}`);
+    verification.results.forEach(result => lines.push(`            ${result.status === 'pass' ? '✓' : result.status === 'fail' ? '✗' : '?'} ${result.evidence}`));
+  });
+
+  return lines.join('\n');
+}
+
+function formatText(plan: UpgradePlan, framework: string, fromVersion: string, toVersion: string): string {
+  const lines = [`${getFrameworkName(framework)} ${fromVersion} → ${toVersion}: ${plan.steps.length} steps`, ''];
+  if (plan.warning) {
+    lines.push(`Warning: ${plan.warning}`, '');
+  }
+
+  plan.steps.forEach((step, index) => {
+    const notApplicable = step.applicable === false ? ` (not applicable: ${step.notApplicableReason || 'not needed for this project'})` : '';
+    const irreversible = step.irreversible ? ' [irreversible]' : '';
+    lines.push(`${String(index + 1).padStart(3)}. ${step.instruction}${irreversible}${notApplicable}`);
+    lines.push(`     ${[getStepTypeLabel(step.stepType), `${step.from} → ${step.to}`, ...(step.affectedFile ? [step.affectedFile] : [])].join(' · ')}`);
+    lines.push(...step.detailedDescription.trim().split('\n').map(line => (line ? `     ${line}` : '')), '');
+  });
+
+  return lines.join('\n');
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Always the bundled JSON data, whatever backend the app is configured with
+  process.env.STEP_REPOSITORY = 'json';
+  process.env.STEP_DATA_DIR = process.env.STEP_DATA_DIR || path.join(__dirname, '..', 'src', 'data');
+
+  let packageJson: string;
+  try {
+    packageJson = readFileSync(path.join(options.project, 'package.json'), 'utf-8');
+  } catch {
+    throw new UsageError(`No package.json found in ${options.project}`);
+  }
+
+  const detected = detectProject({ files: { 'package.json': packageJson }, hasSourceFiles: false });
+  const framework = getFramework(options.framework || detected?.framework || '');
+  if (!framework) {
+    throw new UsageError(options.framework
+      ? `Unknown framework: ${options.framework}`
+      : 'No JSS package found in package.json, pass --framework and --from');
+  }
+
+  const from = tryParseVersion(options.from || (detected?.framework === framework.id ? detected.version : undefined));
+  if (!from) {
+    throw new UsageError(options.from ? `Invalid --from version: ${options.from}` : `No ${framework.packageName} version found in package.json, pass --from`);
+  }
+
+  if (options.check) {
+    const minimum = tryParseVersion(options.check);
+    if (!minimum) {
+      throw new UsageError(`Invalid --check version: ${options.check}`);
+    }
+    if (compareVersions(from, minimum) >= 0) {
+      console.log(`${getFrameworkName(framework.id)} ${formatVersion(from)} meets the minimum version ${formatVersion(minimum)}`);
+      return 0;
+    }
+    console.error(`${getFrameworkName(framework.id)} ${formatVersion(from)} is behind the minimum version ${formatVersion(minimum)}`);
+  }
+
+  // In check mode a project that is behind gets the plan up to the minimum
+  const to = tryParseVersion(options.check || options.to || framework.versions[framework.versions.length - 1]);
+  if (!to) {
+    throw new UsageError(`Invalid --to version: ${options.to}`);
+  }
+  // An explicit --to below the project's version asks for a rollback plan
+  const comparison = compareVersions(from, to);
+  if (comparison === 0 || (comparison > 0 && !options.to)) {
+    console.log(`${getFrameworkName(framework.id)} ${formatVersion(from)} is already on ${formatVersion(to)} or later`);
+    return 0;
+  }
+
+  const projectFiles = listProjectFiles(options.project);
+  const plan = await getUpgradePlan(framework.id, from, to, {
+    consolidate: options.consolidate,
+    projectFiles,
+  });
+
+  const fromVersion = formatVersion(from);
+  const toVersion = formatVersion(to);
+  if (options.verify) {
+    const verifications = verifySteps(readProjectSnapshot(options.project, projectFiles), plan.steps);
+    console.log(options.format === 'json'
+      ? JSON.stringify({ framework: framework.id, fromVersion, toVersion, verifications }, null, 2)
+      : formatVerifications(verifications, framework.id, fromVersion, toVersion));
+    return verifications.some(verification => verification.status === 'fail') ? 1 : 0;
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ framework: framework.id, fromVersion, toVersion, ...plan }, null, 2));
+  } else if (options.format === 'markdown') {
+    console.log(exportPlan({ framework: framework.id, fromVersion, toVersion, steps: plan.steps, warning: plan.warning }, 'markdown').content);
+  } else {
+    console.log(formatText(plan, framework.id, fromVersion, toVersion));
+  }
+
+  return options.check ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof UsageError ? error.message : error);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import PageShell from '../../../../../components/PageShell';
+import FileChanges from '../../../../../components/FileChanges';
+import { getUpgradeStepRepository } from '../../../../../lib/data-layer';
+import { getFileChanges, listTouchedFiles } from '../../../../../lib/file-changes';
+import { getVersionLabel } from '../../../../../lib/frameworks';
+import { PlanPageProps, parsePlanAddress, readPlanPageProps } from '../../../../../lib/plan-page';
+import { getPlanUrl } from '../../../../../lib/plan-url';
+
+async function readFileViewProps(props: PlanPageProps) {
+  const { framework, from, to, search } = await readPlanPageProps(props);
+  const address = parsePlanAddress(framework, from, to, search);
+  if (!address) notFound();
+
+  const { file } = await props.searchParams;
+  return { ...address, file: typeof file === 'string' && file ? file : undefined };
+}
+
+export async function generateMetadata(props: PlanPageProps): Promise<Metadata> {
+  const { query, request, file } = await readFileViewProps(props);
+  const definition = query.framework;
+  const upgrade = `${definition.name} ${getVersionLabel(definition, request.fromVersion)} → ${getVersionLabel(definition, request.toVersion)}`;
+
+  return {
+    title: `${file ? `Changes to ${file}` : 'Files changed'}: ${upgrade} | JSS Upgrade Guide`,
+    description: file
+      ? `Every change to ${file} when upgrading ${upgrade}, oldest first.`
+      : `The files an upgrade of ${upgrade} changes.`,
+  };
+}
+
+export default async function FileViewPage(props: PlanPageProps) {
+  const { query, request, file } = await readFileViewProps(props);
+  // Per-version steps, a merged step would hide which hop a change belongs to
+  const steps = await getUpgradeStepRepository().getUpgradeSteps(query.framework.id, query.from, query.to, {
+    consolidate: 'none',
+    features: query.features,
+  });
+
+  return (
+    <PageShell>
+      <div className="space-y-8">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-blue-900 mb-2">
+            Files changed upgrading {query.framework.name} {getVersionLabel(query.framework, request.fromVersion)} → {getVersionLabel(query.framework, request.toVersion)}
+          </h2>
+          <p className="text-blue-800">
+            Pick a file to see every change to it across the upgrade, so one developer can own it end to end.{' '}
+            <Link href={getPlanUrl(request)} className="underline hover:text-blue-900">
+              Back to the plan
+            </Link>
+          </p>
+        </div>
+
+        <FileChanges
+          request={request}
+          files={listTouchedFiles(steps)}
+          file={file}
+          changes={file ? getFileChanges(steps, file) : []}
+        />
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,54 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import PageShell from '../../../../components/PageShell';
+import PlanExplorer from '../../../../components/PlanExplorer';
+import { getUpgradePlan } from '../../../../lib/data-layer';
+import { getVersionLabel } from '../../../../lib/frameworks';
+import { compareVersions } from '../../../../lib/version';
+import { formatEffort, summarizePlan } from '../../../../lib/plan-summary';
+import { PlanPageProps, parsePlanAddress, readPlanPageProps } from '../../../../lib/plan-page';
+
+// Shared by the page and its metadata so the plan is only built once per request
+const loadPlan = cache(async (framework: string, from: string, to: string, search: string) => {
+  const address = parsePlanAddress(framework, from, to, search);
+  if (!address) notFound();
+
+  const { query } = address;
+  const plan = await getUpgradePlan(query.framework.id, query.from, query.to, {
+    consolidate: query.consolidate,
+    features: query.features,
+  });
+  return { definition: query.framework, request: address.request, plan };
+});
+
+async function loadPlanFromProps(props: PlanPageProps) {
+  const { framework, from, to, search } = await readPlanPageProps(props);
+  return loadPlan(framework, from, to, search);
+}
+
+export async function generateMetadata(props: PlanPageProps): Promise<Metadata> {
+  const { definition, request, plan } = await loadPlanFromProps(props);
+  const summary = summarizePlan(plan.steps);
+  const kind = compareVersions(request.toVersion, request.fromVersion) < 0 ? 'rollback' : 'upgrade';
+  const title = `${definition.name} ${getVersionLabel(definition, request.fromVersion)} → ${getVersionLabel(definition, request.toVersion)} ${kind} plan`;
+  const description = summary.steps > 0
+    ? `${summary.steps} step${summary.steps === 1 ? '' : 's'} to ${kind === 'rollback' ? 'roll back' : 'upgrade'} ${definition.name} from ${request.fromVersion} to ${request.toVersion}${summary.effortHours > 0 ? `, estimated at ${formatEffort(summary.effortHours)}` : ''}.`
+    : `No ${kind} steps found for ${definition.name} from ${request.fromVersion} to ${request.toVersion}.`;
+
+  return {
+    title: `${title} | JSS Upgrade Guide`,
+    description,
+    openGraph: { title, description },
+  };
+}
+
+export default async function PlanPage(props: PlanPageProps) {
+  const { request, plan } = await loadPlanFromProps(props);
+
+  return (
+    <PageShell>
+      <PlanExplorer key={JSON.stringify(request)} initialRequest={request} initialPlan={plan} />
+    </PageShell>
+  );
+}
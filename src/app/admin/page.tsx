@@ -0,0 +1,302 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import Dropdown from '../../components/Dropdown';
+import StepEditor from '../../components/StepEditor';
+import UpgradeStep from '../../components/UpgradeStep';
+import { FRAMEWORKS, getFramework, getFrameworkName, getPlanVersions } from '../../lib/frameworks';
+import type { LintIssue } from '../../lib/step-linter';
+import { Framework, UpgradeStep as UpgradeStepType } from '../../types/upgrade-step';
+import { PublicationStatus, StoredUpgradeStep } from '../../types/step-admin';
+
+const statusColors: Record<PublicationStatus, string> = {
+  'draft': 'bg-amber-100 text-amber-800',
+  'published': 'bg-green-100 text-green-800',
+};
+
+function createEmptyStep(framework: Framework): UpgradeStepType {
+  const versions = getPlanVersions(getFramework(framework));
+  return {
+    instruction: '',
+    detailedDescription: '',
+    from: versions[versions.length - 2] || '',
+    to: versions[versions.length - 1] || '',
+  };
+}
+
+export default function AdminPage() {
+  const [steps, setSteps] = useState<StoredUpgradeStep[]>([]);
+  const [frameworkFilter, setFrameworkFilter] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<string>('');
+  // null while nothing is open, 'new' for a step that hasn't been saved yet
+  const [selectedId, setSelectedId] = useState<number | 'new' | null>(null);
+  const [framework, setFramework] = useState<Framework>(FRAMEWORKS[0].id);
+  const [step, setStep] = useState<UpgradeStepType>(createEmptyStep(FRAMEWORKS[0].id));
+  const [status, setStatus] = useState<PublicationStatus>('draft');
+  const [operationsError, setOperationsError] = useState('');
+  const [issues, setIssues] = useState<LintIssue[]>([]);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSteps = useCallback(async () => {
+    try {
+      const query = new URLSearchParams();
+      if (frameworkFilter) query.set('framework', frameworkFilter);
+      if (statusFilter) query.set('status', statusFilter);
+
+      const response = await fetch(`/api/admin/steps?${query}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || `HTTP error! status: ${response.status}`);
+        return;
+      }
+      setSteps(data.steps);
+    } catch (loadError) {
+      console.error('Error loading steps:', loadError);
+      setError('An error occurred while loading the steps.');
+    }
+  }, [frameworkFilter, statusFilter]);
+
+  useEffect(() => {
+    loadSteps();
+  }, [loadSteps]);
+
+  const openStep = (stored: StoredUpgradeStep) => {
+    setSelectedId(stored.id);
+    setFramework(stored.framework);
+    setStep(stored.step);
+    setStatus(stored.status);
+    setOperationsError('');
+    setIssues([]);
+    setError('');
+    setMessage('');
+  };
+
+  const handleNewStep = () => {
+    const newFramework = frameworkFilter || FRAMEWORKS[0].id;
+    setSelectedId('new');
+    setFramework(newFramework);
+    setStep(createEmptyStep(newFramework));
+    setStatus('draft');
+    setOperationsError('');
+    setIssues([]);
+    setError('');
+    setMessage('');
+  };
+
+  // Saving as a draft takes a published step out of upgrade plans until it is published again
+  const handleSave = async (newStatus: PublicationStatus) => {
+    if (selectedId === null || operationsError) return;
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(selectedId === 'new' ? '/api/admin/steps' : `/api/admin/steps/${selectedId}`, {
+        method: selectedId === 'new' ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ framework, status: newStatus, step }),
+      });
+
+      const data = await response.json();
+      setIssues(data.issues || []);
+      if (!response.ok) {
+        setError(data.error || `HTTP error! status: ${response.status}`);
+        return;
+      }
+
+      setSelectedId(data.id);
+      setStep(data.step);
+      setStatus(data.status);
+      setMessage(newStatus === 'published' ? 'Published, the step is now part of upgrade plans.' : 'Saved as draft.');
+      loadSteps();
+    } catch (saveError) {
+      console.error('Error saving step:', saveError);
+      setError('An error occurred while saving the step. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (typeof selectedId !== 'number' || !window.confirm('Delete this step? This cannot be undone.')) return;
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/steps/${selectedId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `HTTP error! status: ${response.status}`);
+        return;
+      }
+      setSelectedId(null);
+      setMessage('Step deleted.');
+      loadSteps();
+    } catch (deleteError) {
+      console.error('Error deleting step:', deleteError);
+      setError('An error occurred while deleting the step. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6">
+            <Link href="/" className="text-sm text-blue-600 hover:text-blue-800">
+              ← JSS Upgrade Guide
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-gray-900">Step Authoring</h1>
+            <p className="mt-2 text-lg text-gray-600">
+              Drafts are only visible here; publish a step to add it to upgrade plans.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+            {issues.filter(issue => issue.severity === 'error').length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm text-red-800">
+                {issues.filter(issue => issue.severity === 'error').map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Step List */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Dropdown
+                label="Framework"
+                options={[{ value: '', label: 'All' }, ...FRAMEWORKS.map(({ id, name }) => ({ value: id, label: name }))]}
+                value={frameworkFilter}
+                onChange={setFrameworkFilter}
+              />
+              <Dropdown
+                label="Status"
+                options={[{ value: '', label: 'All' }, { value: 'draft', label: 'Draft' }, { value: 'published', label: 'Published' }]}
+                value={statusFilter}
+                onChange={setStatusFilter}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleNewStep}
+              className="w-full inline-flex justify-center items-center px-4 py-2 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50"
+            >
+              New step
+            </button>
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+              {steps.map((stored) => (
+                <li key={stored.id}>
+                  <button
+                    type="button"
+                    onClick={() => openStep(stored)}
+                    className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${stored.id === selectedId ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[stored.status]}`}>
+                        {stored.status === 'draft' ? 'Draft' : 'Published'}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {getFrameworkName(stored.framework)} {stored.step.from} → {stored.step.to}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-900 truncate">{stored.step.instruction}</p>
+                  </button>
+                </li>
+              ))}
+              {steps.length === 0 && (
+                <li className="px-4 py-3 text-sm text-gray-500">No steps match the filters.</li>
+              )}
+            </ul>
+          </div>
+
+          {/* Editor and Preview */}
+          <div className="lg:col-span-2 space-y-8">
+            {selectedId === null ? (
+              <p className="text-gray-600">Select a step to edit it, or create a new one.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusColors[status]}`}>
+                    {selectedId === 'new' ? 'New step' : status === 'draft' ? 'Draft' : 'Published'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleSave('draft')}
+                    disabled={isSaving || !!operationsError}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {status === 'published' && selectedId !== 'new' ? 'Unpublish and save as draft' : 'Save draft'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSave('published')}
+                    disabled={isSaving || !!operationsError}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {status === 'published' && selectedId !== 'new' ? 'Save and keep published' : 'Publish'}
+                  </button>
+                  {selectedId !== 'new' && (
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={isSaving}
+                      className="inline-flex items-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+
+                {issues.filter(issue => issue.severity === 'warning').length > 0 && (
+                  <ul className="p-4 bg-yellow-50 border border-yellow-200 rounded-md list-disc list-inside text-sm text-yellow-800">
+                    {issues.filter(issue => issue.severity === 'warning').map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <StepEditor
+                  key={selectedId}
+                  framework={framework}
+                  step={step}
+                  onFrameworkChange={setFramework}
+                  onStepChange={setStep}
+                  onOperationsError={setOperationsError}
+                  disabled={isSaving}
+                />
+
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Preview</h2>
+                  <UpgradeStep step={step} stepNumber={1} defaultExpanded />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody } from '../../../../../lib/request-body';
+import {
+  AUTHORING_DISABLED_ERROR,
+  findPublishedDependents,
+  formatDependentsError,
+  getStepAdminStore,
+  isStepAuthoringEnabled,
+  parseStepSubmission,
+} from '../../../../../lib/step-admin-store';
+
+// Step ids are the database row ids
+function parseStepId(id: string): number | null {
+  return /^\d+$/.test(id) ? Number(id) : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStepAuthoringEnabled()) {
+      return NextResponse.json({ error: AUTHORING_DISABLED_ERROR }, { status: 409 });
+    }
+
+    const id = parseStepId((await params).id);
+    const step = id === null ? null : await getStepAdminStore().getStep(id);
+    if (!step) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(step);
+  } catch (error) {
+    console.error('Error in admin step API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a step; publishing and unpublishing are saves with a different status
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStepAuthoringEnabled()) {
+      return NextResponse.json({ error: AUTHORING_DISABLED_ERROR }, { status: 409 });
+    }
+
+    const id = parseStepId((await params).id);
+    if (id === null) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    const json = await readJsonBody(request);
+    if ('error' in json) {
+      return NextResponse.json(json, { status: 400 });
+    }
+
+    const result = await parseStepSubmission(json.body, id);
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    const stored = await getStepAdminStore().getStep(id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    // Unpublishing or renaming a step other published steps depend on would leave them dangling
+    const dependents = await findPublishedDependents(stored, result.submission);
+    if (dependents.length > 0) {
+      return NextResponse.json({ error: formatDependentsError(dependents) }, { status: 409 });
+    }
+
+    const step = await getStepAdminStore().updateStep(id, result.submission);
+    if (!step) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...step, issues: result.issues });
+  } catch (error) {
+    console.error('Error in admin step API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isStepAuthoringEnabled()) {
+      return NextResponse.json({ error: AUTHORING_DISABLED_ERROR }, { status: 409 });
+    }
+
+    const id = parseStepId((await params).id);
+    const stored = id === null ? null : await getStepAdminStore().getStep(id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    const dependents = await findPublishedDependents(stored);
+    if (dependents.length > 0) {
+      return NextResponse.json({ error: formatDependentsError(dependents) }, { status: 409 });
+    }
+
+    if (!(await getStepAdminStore().deleteStep(stored.id))) {
+      return NextResponse.json(
+        { error: 'Step not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error in admin step API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody } from '../../../../lib/request-body';
+import { AUTHORING_DISABLED_ERROR, getStepAdminStore, isStepAuthoringEnabled, parseStepSubmission } from '../../../../lib/step-admin-store';
+import { getFramework } from '../../../../lib/frameworks';
+import { PUBLICATION_STATUSES, PublicationStatus } from '../../../../types/step-admin';
+
+// List stored steps, optionally for one framework and/or status
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStepAuthoringEnabled()) {
+      return NextResponse.json({ error: AUTHORING_DISABLED_ERROR }, { status: 409 });
+    }
+
+    const framework = request.nextUrl.searchParams.get('framework');
+    const status = request.nextUrl.searchParams.get('status');
+
+    const frameworkDefinition = framework ? getFramework(framework) : undefined;
+    if (framework && !frameworkDefinition) {
+      return NextResponse.json(
+        { error: `Unknown framework: ${framework}` },
+        { status: 400 }
+      );
+    }
+
+    if (status && !PUBLICATION_STATUSES.includes(status as PublicationStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${PUBLICATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const steps = await getStepAdminStore().listSteps({
+      framework: frameworkDefinition?.id,
+      status: (status as PublicationStatus) || undefined,
+    });
+    return NextResponse.json({ steps });
+  } catch (error) {
+    console.error('Error in admin steps API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a step, usually as a draft
+export async function POST(request: NextRequest) {
+  try {
+    if (!isStepAuthoringEnabled()) {
+      return NextResponse.json({ error: AUTHORING_DISABLED_ERROR }, { status: 409 });
+    }
+
+    const json = await readJsonBody(request);
+    if ('error' in json) {
+      return NextResponse.json(json, { status: 400 });
+    }
+
+    const result = await parseStepSubmission(json.body);
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    const step = await getStepAdminStore().createStep(result.submission);
+    return NextResponse.json({ ...step, issues: result.issues }, { status: 201 });
+  } catch (error) {
+    console.error('Error in admin steps API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
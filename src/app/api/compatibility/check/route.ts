@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPackageJson, getCompatibilityEntry } from '../../../../lib/compatibility';
+import { detectProject, readProjectUpload } from '../../../../lib/project-scanner';
+import { getFramework } from '../../../../lib/frameworks';
+import { tryParseVersion } from '../../../../lib/version';
+
+// Checks an uploaded package.json (or project archive) against what the target JSS version requires.
+// The framework is detected from the package.json unless the form names one.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const framework = formData.get('framework');
+    const toVersion = formData.get('toVersion');
+
+    if (!file || typeof file === 'string' || typeof toVersion !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    const to = tryParseVersion(toVersion);
+    if (!to) {
+      return NextResponse.json(
+        { error: 'toVersion must be a version like 22.4 or 22.4.2' },
+        { status: 400 }
+      );
+    }
+
+    const upload = await readProjectUpload(file);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+    const { snapshot } = upload;
+
+    const packageJson = snapshot.files['package.json'];
+    if (!packageJson) {
+      return NextResponse.json(
+        { error: 'No package.json found in the uploaded project' },
+        { status: 400 }
+      );
+    }
+
+    const frameworkId = typeof framework === 'string' && framework ? framework : detectProject(snapshot)?.framework;
+    const frameworkDefinition = frameworkId ? getFramework(frameworkId) : undefined;
+    if (!frameworkDefinition) {
+      return NextResponse.json(
+        { error: frameworkId ? `Unknown framework: ${frameworkId}` : 'No JSS framework package found in package.json, pick the framework' },
+        { status: 400 }
+      );
+    }
+
+    if (!getCompatibilityEntry(frameworkDefinition.id, to)) {
+      return NextResponse.json(
+        { error: `No compatibility data for ${frameworkDefinition.name} ${toVersion}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      return NextResponse.json(checkPackageJson(packageJson, frameworkDefinition, to));
+    } catch {
+      return NextResponse.json(
+        { error: 'package.json is not valid JSON' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error in compatibility check API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProjectScanResult } from '../../../types/project';
+import { detectProject, readProjectUpload } from '../../../lib/project-scanner';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Missing project file' },
+        { status: 400 }
+      );
+    }
+
+    const upload = await readProjectUpload(file);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+    const { snapshot } = upload;
+
+    const response: ProjectScanResult = {
+      detected: detectProject(snapshot),
+      files: Object.keys(snapshot.files).sort(),
+      hasSourceFiles: snapshot.hasSourceFiles,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in project-scan API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
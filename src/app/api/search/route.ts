@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, searchSteps } from '../../../lib/step-search';
+import { getFramework } from '../../../lib/frameworks';
+
+// Full-text search over the steps of all frameworks and versions
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || '';
+    const framework = request.nextUrl.searchParams.get('framework');
+    const limit = request.nextUrl.searchParams.get('limit');
+
+    if (!query.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required parameter q' },
+        { status: 400 }
+      );
+    }
+
+    const frameworkDefinition = framework ? getFramework(framework) : undefined;
+    if (framework && !frameworkDefinition) {
+      return NextResponse.json(
+        { error: `Unknown framework: ${framework}` },
+        { status: 400 }
+      );
+    }
+
+    const resultLimit = limit ? Number(limit) : DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(resultLimit) || resultLimit < 1 || resultLimit > MAX_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const response = await searchSteps(query, { framework: frameworkDefinition?.id, limit: resultLimit });
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in search API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
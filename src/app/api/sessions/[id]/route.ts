@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore } from '../../../../lib/session-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getSessionStore().getSession(id);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error in session API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
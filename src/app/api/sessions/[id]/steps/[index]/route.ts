@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore } from '../../../../../../lib/session-store';
+import { STEP_STATUSES, StepStatus } from '../../../../../../types/upgrade-session';
+
+// Notes are free text from teammates, keep them to a sensible size
+const MAX_NOTE_LENGTH = 2000;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const { id, index } = await params;
+    const body = await request.json();
+    const { status, note } = body;
+
+    const stepIndex = Number(index);
+    if (!Number.isInteger(stepIndex)) {
+      return NextResponse.json(
+        { error: 'Step index must be a number' },
+        { status: 400 }
+      );
+    }
+
+    if (!STEP_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STEP_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      return NextResponse.json(
+        { error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSessionStore().updateStepProgress(id, stepIndex, {
+      status: status as StepStatus,
+      note,
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session or step not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error in session step API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
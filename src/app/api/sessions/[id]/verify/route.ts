@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore } from '../../../../../lib/session-store';
+import { readProjectUpload } from '../../../../../lib/project-scanner';
+import { verifySteps } from '../../../../../lib/step-verification';
+
+// Checks the session's steps against an uploaded project, ticking off the ones that pass
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formData = await request.formData();
+    const project = formData.get('project');
+
+    if (!project || typeof project === 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    const store = getSessionStore();
+    const existing = await store.getSession(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const upload = await readProjectUpload(project);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+
+    const session = await store.recordVerifications(id, verifySteps(upload.snapshot, existing.steps));
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error in session verify API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
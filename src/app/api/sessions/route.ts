@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUpgradePlan } from '../../../lib/data-layer';
+import { getSessionStore } from '../../../lib/session-store';
+import { formatVersion } from '../../../lib/version';
+import { parsePlanParameters } from '../../../lib/plan-parameters';
+import { readJsonBody } from '../../../lib/request-body';
+
+// Start a shared checklist for an upgrade plan
+export async function POST(request: NextRequest) {
+  try {
+    const json = await readJsonBody(request);
+    if ('error' in json) {
+      return NextResponse.json(json, { status: 400 });
+    }
+
+    // The checklist holds the steps as the plan it was started from lists them
+    const result = parsePlanParameters((json.body || {}) as Record<string, unknown>);
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    const { framework, from, to, projectFiles, consolidate, features } = result.parameters;
+
+    const plan = await getUpgradePlan(framework.id, from, to, { projectFiles, consolidate, features });
+    if (plan.steps.length === 0) {
+      return NextResponse.json(
+        { error: plan.warning || 'No upgrade steps found' },
+        { status: 422 }
+      );
+    }
+
+    const session = await getSessionStore().createSession({
+      framework: framework.id,
+      fromVersion: formatVersion(from),
+      toVersion: formatVersion(to),
+      ...(consolidate ? { consolidate } : {}),
+      steps: plan.steps,
+      path: plan.path,
+      warning: plan.warning,
+    });
+
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error('Error in sessions API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUpgradePlan } from '../../../../lib/data-layer';
+import { getSessionStore } from '../../../../lib/session-store';
+import { EXPORT_FORMATS, ExportFormat, ExportablePlan, exportPlan } from '../../../../lib/plan-exporters';
+import { formatVersion } from '../../../../lib/version';
+import { parsePlanParameters } from '../../../../lib/plan-parameters';
+
+// GET ?format=markdown&framework=nextjs&fromVersion=21.7&toVersion=22.9[&consolidate=none]
+// GET ?format=csv&session=<id> exports a shared checklist including its progress
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'markdown') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let plan: ExportablePlan;
+    const sessionId = searchParams.get('session');
+
+    if (sessionId) {
+      const session = await getSessionStore().getSession(sessionId);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+      plan = session;
+    } else {
+      // Questionnaire answers are passed as plain query parameters, e.g. &hosting=xp&personalization=false
+      const result = parsePlanParameters({
+        framework: searchParams.get('framework'),
+        fromVersion: searchParams.get('fromVersion'),
+        toVersion: searchParams.get('toVersion'),
+        consolidate: searchParams.get('consolidate'),
+        features: Object.fromEntries(searchParams),
+      });
+      if ('error' in result) {
+        return NextResponse.json(result, { status: 400 });
+      }
+      const { framework, from, to, consolidate, features } = result.parameters;
+
+      const { steps, warning } = await getUpgradePlan(framework.id, from, to, { consolidate, features });
+      // The parsed versions, the query strings may carry whitespace the file name header can't take
+      plan = { framework: framework.id, fromVersion: formatVersion(from), toVersion: formatVersion(to), steps, warning };
+    }
+
+    const { content, contentType, fileName } = exportPlan(plan, format);
+
+    // The printable page opens in the browser, everything else downloads
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in upgrade-steps export API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
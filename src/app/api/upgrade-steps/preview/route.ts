@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUpgradeStepRepository } from '../../../../lib/data-layer';
+import { annotateStepsForProject, readProjectUpload } from '../../../../lib/project-scanner';
+import { previewUpgradeOperations } from '../../../../lib/codemods';
+import { getFormPlanParameterFields, parsePlanParameters } from '../../../../lib/plan-parameters';
+
+// Runs the plan's codemods against an uploaded project and returns the steps with their diffs
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const project = formData.get('project');
+    if (!project || typeof project === 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    // Same consolidation mode and questionnaire answers as the plan, so the previewed steps line up with it
+    const result = parsePlanParameters(getFormPlanParameterFields(formData));
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    const { framework, from, to, consolidate, features } = result.parameters;
+
+    const upload = await readProjectUpload(project);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+    const { snapshot } = upload;
+
+    const repository = getUpgradeStepRepository();
+    let steps = await repository.getUpgradeSteps(framework.id, from, to, { consolidate, features });
+
+    if (snapshot.hasSourceFiles) {
+      steps = annotateStepsForProject(steps, Object.keys(snapshot.files));
+    }
+
+    return NextResponse.json({ steps: previewUpgradeOperations(snapshot, steps) });
+  } catch (error) {
+    console.error('Error in upgrade-steps preview API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Framework } from '../../../types/upgrade-step';
-import { getUpgradeStepRepository, hasUpgradePath } from '../../../lib/data-layer';
+import { getUpgradePlan } from '../../../lib/data-layer';
+import { parsePlanParameters } from '../../../lib/plan-parameters';
+import { readJsonBody } from '../../../lib/request-body';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { framework, fromVersion, toVersion } = body;
-
-    if (!framework || !fromVersion || !toVersion) {
-      return NextResponse.json(
-        { error: 'Missing required parameters' },
-        { status: 400 }
-      );
+    const json = await readJsonBody(request);
+    if ('error' in json) {
+      return NextResponse.json(json, { status: 400 });
     }
 
-    const repository = getUpgradeStepRepository();
-    const steps = await repository.getUpgradeSteps(
-      framework as Framework,
-      parseFloat(fromVersion),
-      parseFloat(toVersion)
-    );
-    
-    const hasPath = await hasUpgradePath(
-      framework as Framework,
-      parseFloat(fromVersion),
-      parseFloat(toVersion)
-    );
-    
-    let warning: string | undefined;
-    if (!hasPath || steps.length === 0) {
-      warning = `No upgrade steps found for ${framework} from version ${fromVersion} to ${toVersion}. This upgrade path may not be supported.`;
+    const result = parsePlanParameters((json.body || {}) as Record<string, unknown>);
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
     }
-    
-    const response = {
-      steps,
-      hasPath,
-      warning
-    };
+    const { framework, from, to, projectFiles, consolidate, features } = result.parameters;
+
+    const response = await getUpgradePlan(framework.id, from, to, { projectFiles, consolidate, features });
 
     return NextResponse.json(response);
   } catch (error) {
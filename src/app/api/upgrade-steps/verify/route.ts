@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUpgradeStepRepository } from '../../../../lib/data-layer';
+import { readProjectUpload } from '../../../../lib/project-scanner';
+import { verifySteps } from '../../../../lib/step-verification';
+import { getFormPlanParameterFields, parsePlanParameters } from '../../../../lib/plan-parameters';
+
+// Runs the plan's verification rules against an uploaded project and reports pass or fail per step
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const project = formData.get('project');
+    if (!project || typeof project === 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    // Same consolidation mode and questionnaire answers as the plan, so the step indices line up with it
+    const result = parsePlanParameters(getFormPlanParameterFields(formData));
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    const { framework, from, to, consolidate, features } = result.parameters;
+
+    const upload = await readProjectUpload(project);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+
+    const steps = await getUpgradeStepRepository().getUpgradeSteps(framework.id, from, to, { consolidate, features });
+
+    return NextResponse.json({ verifications: verifySteps(upload.snapshot, steps) });
+  } catch (error) {
+    console.error('Error in upgrade-steps verify API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { FILE_VIEW_PARAMETERS, apiErrorResponse, cachedJson, getRequiredParameter, parseUpgradePlanQuery } from '../../../../../lib/api-v1';
+import { getUpgradeStepRepository } from '../../../../../lib/data-layer';
+import { getFileChanges } from '../../../../../lib/file-changes';
+import { formatVersion } from '../../../../../lib/version';
+
+// GET ?framework=nextjs&from=21.7&to=22.9&file=package.json[&hosting=xp] - every change to one file, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { framework, from, to, features } = parseUpgradePlanQuery(searchParams, [...FILE_VIEW_PARAMETERS, 'file']);
+    const file = getRequiredParameter(searchParams, 'file');
+    const steps = await getUpgradeStepRepository().getUpgradeSteps(framework.id, from, to, { consolidate: 'none', features });
+
+    return cachedJson({
+      framework: framework.id,
+      from: formatVersion(from),
+      to: formatVersion(to),
+      file,
+      changes: getFileChanges(steps, file),
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 file changes');
+  }
+}
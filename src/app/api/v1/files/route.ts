@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { FILE_VIEW_PARAMETERS, apiErrorResponse, cachedJson, parseUpgradePlanQuery } from '../../../../lib/api-v1';
+import { getUpgradeStepRepository } from '../../../../lib/data-layer';
+import { listTouchedFiles } from '../../../../lib/file-changes';
+import { formatVersion } from '../../../../lib/version';
+
+// GET ?framework=nextjs&from=21.7&to=22.9[&hosting=xp] - the files an upgrade touches
+export async function GET(request: NextRequest) {
+  try {
+    const { framework, from, to, features } = parseUpgradePlanQuery(request.nextUrl.searchParams, FILE_VIEW_PARAMETERS);
+    const steps = await getUpgradeStepRepository().getUpgradeSteps(framework.id, from, to, { consolidate: 'none', features });
+
+    return cachedJson({
+      framework: framework.id,
+      from: formatVersion(from),
+      to: formatVersion(to),
+      files: listTouchedFiles(steps),
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 files');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, assertKnownParameters, cachedJson, parseFrameworkId } from '../../../../../../lib/api-v1';
+import { getCompatibility } from '../../../../../../lib/compatibility';
+
+// What each release of the framework requires: Node.js or .NET, package ranges and Sitecore versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    assertKnownParameters(request.nextUrl.searchParams, []);
+    const framework = parseFrameworkId((await params).id, 'id', 404);
+
+    return cachedJson({
+      framework: framework.id,
+      releases: getCompatibility(framework.id),
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 framework compatibility');
+  }
+}
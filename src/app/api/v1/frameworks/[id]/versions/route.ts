@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, assertKnownParameters, cachedJson, parseFrameworkId } from '../../../../../../lib/api-v1';
+import { getPlanVersions, getVersionLabel } from '../../../../../../lib/frameworks';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    assertKnownParameters(request.nextUrl.searchParams, []);
+    const framework = parseFrameworkId((await params).id, 'id', 404);
+
+    return cachedJson({
+      framework: framework.id,
+      versions: getPlanVersions(framework).map(version => ({ version, label: getVersionLabel(framework, version) })),
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 framework versions');
+  }
+}
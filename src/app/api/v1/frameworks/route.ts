@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, assertKnownParameters, cachedJson } from '../../../../lib/api-v1';
+import { FRAMEWORKS } from '../../../../lib/frameworks';
+
+export async function GET(request: NextRequest) {
+  try {
+    assertKnownParameters(request.nextUrl.searchParams, []);
+
+    return cachedJson({
+      frameworks: FRAMEWORKS.map(({ id, name, packageName, packageManager, versions }) => ({
+        id,
+        name,
+        packageName,
+        packageManager,
+        versions,
+      })),
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 frameworks');
+  }
+}
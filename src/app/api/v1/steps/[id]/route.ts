@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { ApiError, apiErrorResponse, assertKnownParameters, cachedJson } from '../../../../../lib/api-v1';
+import { getUpgradeStepRepository } from '../../../../../lib/data-layer';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    assertKnownParameters(request.nextUrl.searchParams, []);
+    const { id } = await params;
+
+    const step = await getUpgradeStepRepository().getStep(id);
+    if (!step) {
+      throw new ApiError('step_not_found', `Step "${id}" not found`, 404, 'id');
+    }
+
+    return cachedJson({ step });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 steps');
+  }
+}
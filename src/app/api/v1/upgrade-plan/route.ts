@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, cachedJson, parseUpgradePlanQuery } from '../../../../lib/api-v1';
+import { getUpgradePlan } from '../../../../lib/data-layer';
+import { formatVersion } from '../../../../lib/version';
+
+// GET ?framework=nextjs&from=21.7&to=22.9[&consolidate=none][&hosting=xp&personalization=false]
+export async function GET(request: NextRequest) {
+  try {
+    const { framework, from, to, consolidate, features } = parseUpgradePlanQuery(request.nextUrl.searchParams);
+    const plan = await getUpgradePlan(framework.id, from, to, { consolidate, features });
+
+    return cachedJson({
+      framework: framework.id,
+      from: formatVersion(from),
+      to: formatVersion(to),
+      ...plan,
+    });
+  } catch (error) {
+    return apiErrorResponse(error, 'v1 upgrade-plan');
+  }
+}
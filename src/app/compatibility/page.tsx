@@ -0,0 +1,108 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import PageShell from '../../components/PageShell';
+import CompatibilityCheck from '../../components/CompatibilityCheck';
+import { formatSitecoreSupport, getCompatibility } from '../../lib/compatibility';
+import { FRAMEWORKS, getVersionLabel } from '../../lib/frameworks';
+
+interface CompatibilityPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export const metadata: Metadata = {
+  title: 'Compatibility matrix | JSS Upgrade Guide',
+  description: 'Node.js, Next.js, React, Angular, RxJS, TypeScript and Sitecore versions supported by each JSS release.',
+};
+
+export default async function CompatibilityPage({ searchParams }: CompatibilityPageProps) {
+  const { framework: frameworkId } = await searchParams;
+  const framework = typeof frameworkId === 'string' ? FRAMEWORKS.find(definition => definition.id === frameworkId) : FRAMEWORKS[0];
+  if (!framework) notFound();
+
+  const releases = getCompatibility(framework.id);
+  const packages = [...new Set(releases.flatMap(release => Object.keys(release.packages)))];
+  const runtime = framework.packageManager === 'nuget' ? '.NET' : 'Node.js';
+
+  return (
+    <PageShell>
+      <div className="space-y-8">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-blue-900 mb-2">Compatibility matrix</h2>
+          <p className="text-blue-800">
+            What each JSS release requires. Values in bold change with that release.
+          </p>
+        </div>
+
+        <nav aria-label="Frameworks" className="flex flex-wrap gap-2">
+          {FRAMEWORKS.map(definition => (
+            <Link
+              key={definition.id}
+              href={`/compatibility?framework=${definition.id}`}
+              aria-current={definition.id === framework.id ? 'page' : undefined}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                definition.id === framework.id
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {definition.name}
+            </Link>
+          ))}
+        </nav>
+
+        {releases.length === 0 ? (
+          <p className="text-sm text-gray-600">There is no compatibility data for {framework.name} yet.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-3 py-2 font-medium">Release</th>
+                  <th className="px-3 py-2 font-medium">{runtime}</th>
+                  {packages.map(name => (
+                    <th key={name} className="px-3 py-2 font-medium font-mono">{name}</th>
+                  ))}
+                  <th className="px-3 py-2 font-medium">Sitecore</th>
+                </tr>
+              </thead>
+              <tbody>
+                {releases.map((release, index) => {
+                  const previous = releases[index - 1];
+                  const cell = (value: string | undefined, previousValue: string | undefined) => (
+                    <span className={previous && value !== previousValue ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+                      {value || '—'}
+                    </span>
+                  );
+
+                  return (
+                    <tr key={release.version} className="border-b border-gray-100 last:border-0">
+                      <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">{getVersionLabel(framework, release.version)}</td>
+                      <td className="px-3 py-2 font-mono whitespace-nowrap">
+                        {framework.packageManager === 'nuget'
+                          ? cell(release.dotnet, previous?.dotnet)
+                          : cell(release.node, previous?.node)}
+                      </td>
+                      {packages.map(name => (
+                        <td key={name} className="px-3 py-2 font-mono whitespace-nowrap">
+                          {cell(release.packages[name], previous?.packages[name])}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {cell(formatSitecoreSupport(release), previous && formatSitecoreSupport(previous))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {framework.packageManager === 'npm' && releases.length > 0 && (
+          <CompatibilityCheck key={framework.id} framework={framework.id} versions={releases.map(release => ({ value: release.version, label: getVersionLabel(framework, release.version) }))} />
+        )}
+      </div>
+    </PageShell>
+  );
+}
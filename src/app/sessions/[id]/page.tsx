@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import UpgradeSteps from '../../../components/UpgradeSteps';
+import ExportMenu from '../../../components/ExportMenu';
+import ProjectVerification from '../../../components/ProjectVerification';
+import { getFrameworkName } from '../../../lib/frameworks';
+import { StepStatus, UpgradeSession } from '../../../types/upgrade-session';
+
+// Teammates' changes show up without a reload
+const REFRESH_INTERVAL = 10000;
+
+export default function SessionPage() {
+  const { id } = useParams<{ id: string }>();
+  const [session, setSession] = useState<UpgradeSession | null>(null);
+  const [error, setError] = useState<string>('');
+  const [copied, setCopied] = useState(false);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sessions/${id}`, { cache: 'no-store' });
+      if (response.status === 404) {
+        setError('This upgrade session does not exist.');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setSession(await response.json());
+      setError('');
+    } catch (loadError) {
+      console.error('Error loading upgrade session:', loadError);
+      setError('An error occurred while loading the upgrade session.');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadSession();
+    const interval = setInterval(loadSession, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadSession]);
+
+  const handleProgressChange = async (stepIndex: number, progress: { status: StepStatus; note?: string }) => {
+    if (!session) return;
+
+    // Show the change right away, the server response has the merged state
+    setSession({
+      ...session,
+      progress: {
+        ...session.progress,
+        [stepIndex]: { ...session.progress[stepIndex], ...progress, updatedAt: new Date().toISOString() },
+      },
+    });
+
+    try {
+      const response = await fetch(`/api/sessions/${id}/steps/${stepIndex}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(progress),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setSession(await response.json());
+    } catch (saveError) {
+      console.error('Error saving step progress:', saveError);
+      setError('Your change could not be saved. Please try again.');
+      loadSession();
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6">
+            <Link href="/" className="text-sm text-blue-600 hover:text-blue-800">
+              ← JSS Upgrade Guide
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold text-gray-900">Upgrade Checklist</h1>
+            {session && (
+              <p className="mt-2 text-lg text-gray-600">
+                {getFrameworkName(session.framework)} {session.fromVersion} → {session.toVersion}
+              </p>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-8">
+          {error && (
+            <div className="max-w-4xl mx-auto p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {session && (
+            <UpgradeSteps
+              steps={session.steps}
+              framework={session.framework}
+              fromVersion={session.fromVersion}
+              toVersion={session.toVersion}
+              warning={session.warning}
+              path={session.path}
+              progress={session.progress}
+              onProgressChange={handleProgressChange}
+              actions={
+                <div className="space-y-3">
+                  <button
+                    type="button"
+                    onClick={handleCopyLink}
+                    className="inline-flex items-center px-4 py-2 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50"
+                  >
+                    {copied ? 'Link copied' : 'Copy share link'}
+                  </button>
+                  <ExportMenu query={{ session: session.id }} />
+                  <ProjectVerification sessionId={session.id} onVerified={setSession} />
+                </div>
+              }
+            />
+          )}
+
+          {!session && !error && (
+            <p className="max-w-4xl mx-auto text-gray-600">Loading upgrade session...</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Highlight, Prism, themes } from 'prism-react-renderer';
+
+// prism-react-renderer doesn't bundle a shell grammar; most snippets are npm commands
+Prism.languages.bash = {
+  comment: { pattern: /(^|\s)#.*/, lookbehind: true },
+  string: /"(?:\\.|[^"\\])*"|'[^']*'/,
+  variable: /\$\{?\w+\}?/,
+  function: /\b(?:npm|npx|yarn|pnpm|node|jss|git|cd|rm|cp|mkdir)\b/,
+  parameter: /(?:^|\s)--?[\w-]+/,
+  operator: /&&|\|\|?|>>?/,
+};
+Prism.languages.sh = Prism.languages.bash;
+Prism.languages.shell = Prism.languages.bash;
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying code to clipboard:', error);
+    }
+  };
+
+  // Unknown languages fall back to plain text instead of failing to render
+  const grammar = language && Prism.languages[language.toLowerCase()] ? language.toLowerCase() : 'plain';
+
+  return (
+    <div className="my-4">
+      <div className="flex items-center justify-between bg-gray-900 rounded-t-md px-4 py-2">
+        <span className="text-gray-400 text-xs font-mono">
+          {language || 'code'}
+        </span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="text-xs text-gray-300 hover:text-white"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <Highlight code={code} language={grammar} theme={themes.vsDark}>
+        {({ tokens, getLineProps, getTokenProps }) => (
+          <pre className="bg-gray-800 text-gray-100 p-4 rounded-b-md overflow-x-auto">
+            <code className="text-sm font-mono">
+              {tokens.map((line, lineIndex) => (
+                <div key={lineIndex} {...getLineProps({ line })}>
+                  {line.map((token, tokenIndex) => (
+                    <span key={tokenIndex} {...getTokenProps({ token })} />
+                  ))}
+                </div>
+              ))}
+            </code>
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState } from 'react';
+import Dropdown from './Dropdown';
+import { CompatibilityCheck as CompatibilityCheckResult, RequirementStatus } from '../types/compatibility';
+import { Framework } from '../types/upgrade-step';
+
+interface CompatibilityCheckProps {
+  framework: Framework;
+  versions: { value: string; label: string }[]; // Releases with compatibility data, oldest first
+}
+
+const statusLabels: Record<RequirementStatus, string> = {
+  'ok': 'OK',
+  'update': 'Update',
+  'missing': 'Not in package.json',
+  'unknown': 'Check manually',
+};
+
+const statusColors: Record<RequirementStatus, string> = {
+  'ok': 'bg-green-100 text-green-800',
+  'update': 'bg-red-100 text-red-800',
+  'missing': 'bg-amber-100 text-amber-800',
+  'unknown': 'bg-gray-100 text-gray-600',
+};
+
+const CompatibilityCheck: React.FC<CompatibilityCheckProps> = ({ framework, versions }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [toVersion, setToVersion] = useState(versions[versions.length - 1]?.value || '');
+  const [result, setResult] = useState<CompatibilityCheckResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCheck = async () => {
+    if (!file) return;
+    setIsChecking(true);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('framework', framework);
+      formData.append('toVersion', toVersion);
+
+      const response = await fetch('/api/compatibility/check', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setResult(data);
+    } catch (checkError) {
+      console.error('Error checking compatibility:', checkError);
+      setError(checkError instanceof Error ? checkError.message : 'An error occurred while checking the project.');
+      setResult(null);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const toMove = result?.requirements.filter(requirement => requirement.status === 'update') || [];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Check your package.json</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Lists every dependency that has to move for the target version, with the range it requires.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            package.json or project archive (.zip, .tar.gz)
+          </label>
+          <input
+            type="file"
+            accept=".json,.zip,.tar,.gz,.tgz"
+            onChange={(e) => { setFile(e.target.files?.[0] || null); setResult(null); }}
+            disabled={isChecking}
+            className="block text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+        </div>
+        <Dropdown
+          label="Target version"
+          options={versions}
+          value={toVersion}
+          onChange={(value) => { setToVersion(value); setResult(null); }}
+          disabled={isChecking}
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={handleCheck}
+        disabled={!file || isChecking}
+        className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+      >
+        {isChecking ? 'Checking...' : 'Check'}
+      </button>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-700 mb-2">
+            {toMove.length === 0
+              ? `Nothing in package.json has to move for ${result.toVersion}.`
+              : `${toMove.length} requirement${toMove.length === 1 ? '' : 's'} to update for ${result.toVersion}.`}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Dependency</th>
+                <th className="py-2 font-medium">Current</th>
+                <th className="py-2 font-medium">Required</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.requirements.map(requirement => (
+                <tr key={requirement.name} className="border-b border-gray-100 last:border-0">
+                  <td className="py-1.5 font-mono text-gray-900">
+                    {requirement.kind === 'engine' ? `Node.js (engines.${requirement.name})` : requirement.name}
+                  </td>
+                  <td className="py-1.5 font-mono text-gray-700">{requirement.current || '—'}</td>
+                  <td className="py-1.5 font-mono text-gray-700">{requirement.required}</td>
+                  <td className="py-1.5">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[requirement.status]}`}>
+                      {statusLabels[requirement.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompatibilityCheck;
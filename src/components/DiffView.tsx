@@ -0,0 +1,40 @@
+import React from 'react';
+import { FileDiff } from '../types/codemod';
+
+interface DiffViewProps {
+  fileDiff: FileDiff;
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ fileDiff }) => {
+  // Skip the "Index:" and "===" lines the diff library puts in front of the file headers
+  const lines = fileDiff.diff
+    .split('\n')
+    .filter(line => !line.startsWith('Index:') && !line.startsWith('==='));
+
+  const getLineClassName = (line: string) => {
+    if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-400';
+    if (line.startsWith('@@')) return 'text-blue-300';
+    if (line.startsWith('+')) return 'bg-green-900/50 text-green-200';
+    if (line.startsWith('-')) return 'bg-red-900/50 text-red-200';
+    return 'text-gray-300';
+  };
+
+  return (
+    <div className="my-4">
+      <div className="bg-gray-900 rounded-t-md px-4 py-2">
+        <span className="text-gray-400 text-xs font-mono">{fileDiff.file}</span>
+      </div>
+      <pre className="bg-gray-800 p-4 rounded-b-md overflow-x-auto">
+        <code className="text-sm font-mono">
+          {lines.map((line, index) => (
+            <div key={index} className={getLineClassName(line)}>
+              {line || ' '}
+            </div>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default DiffView;
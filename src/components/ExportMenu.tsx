@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface ExportMenuProps {
+  // Query string identifying the plan, e.g. framework/fromVersion/toVersion or session
+  query: Record<string, string>;
+}
+
+const EXPORT_OPTIONS = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'github', label: 'GitHub issue' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'html', label: 'Print' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ query }) => {
+  const getExportUrl = (format: string) =>
+    `/api/upgrade-steps/export?${new URLSearchParams({ ...query, format }).toString()}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-blue-800">Export:</span>
+      {EXPORT_OPTIONS.map(({ format, label }) => (
+        <a
+          key={format}
+          href={getExportUrl(format)}
+          target={format === 'html' ? '_blank' : undefined}
+          rel={format === 'html' ? 'noopener noreferrer' : undefined}
+          className="inline-flex items-center px-3 py-1.5 border border-blue-300 text-xs font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50"
+        >
+          {label}
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,38 @@
+import React from 'react';
+import Dropdown from './Dropdown';
+import { ProjectFeatures } from '../types/upgrade-step';
+import { FEATURE_QUESTIONS, parseProjectFeatures } from '../lib/project-features';
+
+interface FeatureQuestionnaireProps {
+  features: ProjectFeatures;
+  onChange: (features: ProjectFeatures) => void;
+  disabled?: boolean;
+  unansweredLabel?: string;
+}
+
+const FeatureQuestionnaire: React.FC<FeatureQuestionnaireProps> = ({ features, onChange, disabled = false, unansweredLabel = 'Not sure' }) => {
+  const handleAnswer = (feature: keyof ProjectFeatures, value: string) => {
+    // Every option comes from the questions, so the answers always parse
+    onChange(parseProjectFeatures({ ...features, [feature]: value }) || {});
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+      {FEATURE_QUESTIONS.map(({ feature, question, options }) => (
+        <Dropdown
+          key={feature}
+          label={question}
+          options={[
+            { value: '', label: unansweredLabel },
+            ...options.map(option => ({ value: String(option.value), label: option.label })),
+          ]}
+          value={features[feature] === undefined ? '' : String(features[feature])}
+          onChange={(value) => handleAnswer(feature, value)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default FeatureQuestionnaire;
@@ -0,0 +1,120 @@
+import React from 'react';
+import Link from 'next/link';
+import CodeBlock from './CodeBlock';
+import Markdown from './Markdown';
+import { FileChange, TouchedFile } from '../types/file-changes';
+import { StepSeverity } from '../types/upgrade-step';
+import { PlanRequest, getFileViewUrl } from '../lib/plan-url';
+import { formatEffort } from '../lib/plan-summary';
+import { getSeverityLabel, getStepTypeLabel } from '../lib/step-types';
+import { formatVersionRange } from '../lib/upgrade-path';
+
+interface FileChangesProps {
+  request: PlanRequest;
+  files: TouchedFile[];
+  file?: string; // The file picked from the list
+  changes: FileChange[];
+}
+
+const severityColors: Record<StepSeverity, string> = {
+  'breaking': 'bg-red-100 text-red-800',
+  'recommended': 'bg-amber-100 text-amber-800',
+  'optional': 'bg-gray-100 text-gray-600',
+};
+
+const FileChanges: React.FC<FileChangesProps> = ({ request, files, file, changes }) => {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* Touched files */}
+      <nav aria-label="Files changed by the upgrade">
+        <h3 className="text-lg font-medium text-gray-900 mb-3">
+          {files.length} file{files.length === 1 ? '' : 's'} changed
+        </h3>
+        {files.length === 0 ? (
+          <p className="text-sm text-gray-600">No step of this upgrade names the file it changes.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {files.map(touched => (
+              <li key={touched.file}>
+                <Link
+                  href={getFileViewUrl(request, touched.file)}
+                  aria-current={touched.file === file ? 'page' : undefined}
+                  className={`block px-4 py-3 hover:bg-blue-50 ${touched.file === file ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="font-mono text-sm text-gray-900 break-all">{touched.file}</div>
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span>{touched.changes} change{touched.changes === 1 ? '' : 's'}</span>
+                    <span>{touched.hops.map(formatVersionRange).join(', ')}</span>
+                    {touched.severity && (
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${severityColors[touched.severity]}`}>
+                        {getSeverityLabel(touched.severity)}
+                      </span>
+                    )}
+                    {touched.effortHours > 0 && <span>~{formatEffort(touched.effortHours)}</span>}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </nav>
+
+      {/* Changes to the picked file */}
+      <section className="lg:col-span-2">
+        {!file ? (
+          <p className="text-sm text-gray-600">Pick a file to see every change to it, oldest first.</p>
+        ) : (
+          <>
+            <h3 className="text-lg font-medium text-gray-900 mb-3">
+              Changes to <span className="font-mono">{file}</span>
+            </h3>
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-600">No step of this upgrade changes this file.</p>
+            ) : (
+              <ol className="space-y-4">
+                {changes.map((change, index) => (
+                  <li
+                    key={change.id || index}
+                    className={`border border-gray-200 rounded-lg p-4 ${change.applicable === false ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-medium text-blue-700">{formatVersionRange(change)}</span>
+                      <span className="text-gray-500">{getStepTypeLabel(change.stepType)}</span>
+                      {change.severity && (
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${severityColors[change.severity]}`}>
+                          {getSeverityLabel(change.severity)}
+                        </span>
+                      )}
+                      {change.affectedFile !== file && (
+                        <span className="font-mono text-gray-500">{change.affectedFile}</span>
+                      )}
+                    </div>
+                    <p className="mt-2 text-sm font-medium text-gray-900">{change.instruction}</p>
+                    {change.notApplicableReason && (
+                      <p className="mt-1 text-xs text-gray-500">{change.notApplicableReason}</p>
+                    )}
+                    {change.snippets.length > 0 && (
+                      <div className="mt-3 space-y-3">
+                        {change.snippets.map((snippet, snippetIndex) => (
+                          <CodeBlock key={snippetIndex} code={snippet.code} language={snippet.language} />
+                        ))}
+                      </div>
+                    )}
+                    <details className="mt-3">
+                      <summary className="text-sm text-blue-700 cursor-pointer">Full instructions</summary>
+                      <div className="mt-2">
+                        <Markdown source={change.detailedDescription} />
+                      </div>
+                    </details>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default FileChanges;
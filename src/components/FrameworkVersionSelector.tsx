@@ -1,54 +1,77 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
 import Dropdown from './Dropdown';
-import { Framework } from '../types/upgrade-step';
+import ProjectUpload from './ProjectUpload';
+import FeatureQuestionnaire from './FeatureQuestionnaire';
+import { Framework, ProjectFeatures } from '../types/upgrade-step';
+import { ProjectContext, ProjectScanResult } from '../types/project';
+import { compareVersions } from '../lib/version';
+import { FRAMEWORKS, getFramework, getPlanVersions, getVersionLabel } from '../lib/frameworks';
+import { PlanRequest, getPlanUrl } from '../lib/plan-url';
 
 interface FrameworkVersionSelectorProps {
-  onGetUpgradeSteps: (framework: Framework, fromVersion: number, toVersion: number) => void;
+  onGetUpgradeSteps: (
+    framework: Framework,
+    fromVersion: string,
+    toVersion: string,
+    project?: ProjectContext,
+    features?: ProjectFeatures
+  ) => void;
   isLoading?: boolean;
+  // The plan in the page address, e.g. /nextjs/21.7/22.9
+  selection?: PlanRequest;
 }
 
 const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
   onGetUpgradeSteps,
   isLoading = false,
+  selection,
 }) => {
-  const [framework, setFramework] = useState<Framework>('Next.JS');
-  const [fromVersion, setFromVersion] = useState<string>('21.7');
-  const [toVersion, setToVersion] = useState<string>('22.0');
+  const [framework, setFramework] = useState<Framework>(selection?.framework || FRAMEWORKS[0].id);
+  const [fromVersion, setFromVersion] = useState<string>(selection?.fromVersion || '21.7');
+  const [toVersion, setToVersion] = useState<string>(selection?.toVersion || '22.0');
   const [validationError, setValidationError] = useState<string>('');
+  const [project, setProject] = useState<ProjectContext | undefined>(undefined);
+  const [scanNotice, setScanNotice] = useState<string>('');
+  const [detectedVersion, setDetectedVersion] = useState<string>('');
+  const [features, setFeatures] = useState<ProjectFeatures>(selection?.features || {});
+  const [isNavigating, startNavigation] = useTransition();
+  const router = useRouter();
 
-  // Generate version options from 21.7 to 22.9
+  useEffect(() => {
+    if (!selection) return;
+    setFramework(selection.framework);
+    setFromVersion(selection.fromVersion);
+    setToVersion(selection.toVersion);
+    setFeatures(selection.features || {});
+    setDetectedVersion('');
+    setValidationError('');
+  }, [selection]);
+
+  const frameworkDefinition = getFramework(framework);
+
+  // The framework's registered versions, plus an exact patch release detected in the project
   const generateVersionOptions = () => {
-    const versions: { value: string; label: string }[] = [];
-    for (let major = 21; major <= 22; major++) {
-      const minorStart = major === 21 ? 7 : 0;
-      const minorEnd = major === 22 ? 9 : 9;
-      
-      for (let minor = minorStart; minor <= minorEnd; minor++) {
-        const version = `${major}.${minor}`;
-        versions.push({ value: version, label: version });
-      }
+    const versions = [...getPlanVersions(frameworkDefinition)];
+    if (detectedVersion && !versions.some(version => compareVersions(version, detectedVersion) === 0)) {
+      versions.push(detectedVersion);
     }
-    return versions;
+    return versions
+      .sort(compareVersions)
+      .map(version => ({ value: version, label: getVersionLabel(frameworkDefinition, version) }));
   };
 
-  const frameworkOptions = [
-    { value: 'Next.JS', label: 'Next.JS' },
-    { value: 'Angular', label: 'Angular' },
-  ];
+  const frameworkOptions = FRAMEWORKS.map(({ id, name }) => ({ value: id, label: name }));
 
   const versionOptions = generateVersionOptions();
 
+  // A To Version below the From Version asks for a rollback plan
   const validateVersions = (from: string, to: string): string => {
-    const fromNum = parseFloat(from);
-    const toNum = parseFloat(to);
+    const comparison = compareVersions(to, from);
     
-    if (toNum < fromNum) {
-      return 'To version must be greater than or equal to From version.';
-    }
-    
-    if (fromNum === toNum) {
+    if (comparison === 0) {
       return 'From version and To version cannot be the same.';
     }
     
@@ -67,16 +90,77 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
     setValidationError(error);
   };
 
+  // Versions differ per framework, keep the selection only when the new framework has it.
+  // Returns the To Version in effect afterwards.
+  const handleFrameworkChange = (value: Framework): string => {
+    const versions = getPlanVersions(getFramework(value));
+    setFramework(value);
+    setDetectedVersion('');
+    if (versions.includes(fromVersion) && versions.includes(toVersion)) {
+      return toVersion;
+    }
+    setFromVersion(versions[0]);
+    setToVersion(versions[versions.length - 1]);
+    setValidationError('');
+    return versions[versions.length - 1];
+  };
+
+  const handleScanComplete = (result: ProjectScanResult | null, archive: File | null) => {
+    // Only a full project archive tells us which files exist
+    setProject(result && archive ? { archive, files: result.hasSourceFiles ? result.files : undefined } : undefined);
+    setScanNotice('');
+    setDetectedVersion('');
+    if (!result?.detected) return;
+
+    // Pre-select what the scan found; the user can still override it
+    const selectedToVersion = handleFrameworkChange(result.detected.framework);
+    const version = result.detected.version;
+    const versions = getPlanVersions(getFramework(result.detected.framework));
+    if (versions.length > 0 && compareVersions(version, versions[0]) >= 0 && compareVersions(version, versions[versions.length - 1]) <= 0) {
+      const knownVersion = versions.find(option => compareVersions(option, version) === 0);
+      if (!knownVersion) {
+        setDetectedVersion(version);
+      }
+      setFromVersion(knownVersion || version);
+      setValidationError(validateVersions(knownVersion || version, selectedToVersion));
+    } else {
+      setScanNotice(`Detected version ${version} is not in the supported range, please pick the closest From Version.`);
+    }
+  };
+
+  const isBusy = isLoading || isNavigating;
+
+  // The plan page renders the plan on the server. A plan tailored to an uploaded project can't be
+  // shared, so the address is updated but the plan is fetched here.
   const handleGetUpgradeSteps = () => {
-    if (!validationError && !isLoading) {
-      onGetUpgradeSteps(framework, parseFloat(fromVersion), parseFloat(toVersion));
+    if (validationError || isBusy) return;
+
+    // The form has no consolidation choice, the mode of the plan in the address carries over
+    const url = getPlanUrl({ framework, fromVersion, toVersion, features, consolidate: selection?.consolidate });
+    if (project) {
+      window.history.pushState(null, '', url);
+      onGetUpgradeSteps(framework, fromVersion, toVersion, project, features);
+    } else {
+      startNavigation(() => router.push(url));
     }
   };
 
-  const isButtonDisabled = !!validationError || isLoading;
+  const isButtonDisabled = !!validationError || isBusy;
 
   return (
     <div className="max-w-4xl mx-auto">
+      {/* Project Scan Section */}
+      <div className="mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Project (optional)</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Upload your project to detect the framework and current JSS version, and to tailor the plan to the files it contains.
+        </p>
+        <ProjectUpload onScanComplete={handleScanComplete} disabled={isBusy} />
+        {scanNotice && (
+          <p className="mt-2 text-sm text-yellow-700">{scanNotice}</p>
+        )}
+      </div>
+
       {/* Framework Section */}
       <div className="mb-8">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Framework</h2>
@@ -88,8 +172,8 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
             label="Select Framework"
             options={frameworkOptions}
             value={framework}
-            onChange={(value) => setFramework(value as Framework)}
-            disabled={isLoading}
+            onChange={handleFrameworkChange}
+            disabled={isBusy}
           />
         </div>
       </div>
@@ -103,14 +187,14 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
             options={versionOptions}
             value={fromVersion}
             onChange={handleFromVersionChange}
-            disabled={isLoading}
+            disabled={isBusy}
           />
           <Dropdown
             label="To Version"
             options={versionOptions}
             value={toVersion}
             onChange={handleToVersionChange}
-            disabled={isLoading}
+            disabled={isBusy}
           />
         </div>
         
@@ -139,6 +223,15 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
         )}
       </div>
 
+      {/* Project Features Section */}
+      <div className="mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Project Features (optional)</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Steps for features your project doesn&apos;t use are moved out of the way. Leave a question on &quot;Not sure&quot; to keep its steps.
+        </p>
+        <FeatureQuestionnaire features={features} onChange={setFeatures} disabled={isBusy} />
+      </div>
+
       {/* Get Upgrade Steps Button */}
       <div className="mb-8">
         <button
@@ -154,7 +247,7 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
             transition-colors duration-200
           `}
         >
-          {isLoading ? (
+          {isBusy ? (
             <>
               <svg
                 className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
@@ -178,7 +271,7 @@ const FrameworkVersionSelector: React.FC<FrameworkVersionSelectorProps> = ({
               Loading...
             </>
           ) : (
-            'Get Upgrade Steps'
+            compareVersions(toVersion, fromVersion) < 0 ? 'Get Rollback Steps' : 'Get Upgrade Steps'
           )}
         </button>
       </div>
@@ -0,0 +1,162 @@
+import React from 'react';
+import { Token, Tokens } from 'marked';
+import CodeBlock from './CodeBlock';
+import { isSafeHref, parseMarkdown } from '../lib/markdown';
+
+interface MarkdownProps {
+  source: string;
+}
+
+// Renders the Markdown tokens as React elements, so raw HTML in the source is never injected
+const Markdown: React.FC<MarkdownProps> = ({ source }) => (
+  <div className="space-y-3 text-sm text-gray-700">
+    {renderBlocks(parseMarkdown(source))}
+  </div>
+);
+
+function renderBlocks(tokens: Token[]): React.ReactNode[] {
+  return tokens.map((token, index) => renderBlock(token, index));
+}
+
+function renderBlock(token: Token, key: number): React.ReactNode {
+  switch (token.type) {
+    case 'heading':
+      return (
+        <h4 key={key} className="font-semibold text-gray-900 mt-4">
+          {renderInline((token as Tokens.Heading).tokens)}
+        </h4>
+      );
+    case 'paragraph':
+      return <p key={key}>{renderInline((token as Tokens.Paragraph).tokens)}</p>;
+    case 'code':
+      return <CodeBlock key={key} code={(token as Tokens.Code).text} language={(token as Tokens.Code).lang || undefined} />;
+    case 'list':
+      return renderList(token as Tokens.List, key);
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="border-l-4 border-gray-300 pl-4 text-gray-600 space-y-2">
+          {renderBlocks((token as Tokens.Blockquote).tokens)}
+        </blockquote>
+      );
+    case 'table':
+      return renderTable(token as Tokens.Table, key);
+    case 'hr':
+      return <hr key={key} className="border-gray-200" />;
+    case 'text': {
+      // Items of tight lists hold their text as block-level text tokens
+      const text = token as Tokens.Text;
+      return <React.Fragment key={key}>{text.tokens ? renderInline(text.tokens) : text.text}</React.Fragment>;
+    }
+    case 'html':
+      return <p key={key}>{(token as Tokens.HTML).text}</p>;
+    default:
+      return null;
+  }
+}
+
+function renderList(list: Tokens.List, key: number): React.ReactNode {
+  const items = list.items.map((item, index) => (
+    <li key={index} className="space-y-2">
+      {item.task && (
+        <input type="checkbox" className="mr-2 align-middle" checked={!!item.checked} readOnly disabled />
+      )}
+      {renderBlocks(item.tokens.filter(token => token.type !== 'checkbox'))}
+    </li>
+  ));
+
+  return list.ordered ? (
+    <ol key={key} start={list.start || undefined} className="list-decimal pl-6 space-y-2">
+      {items}
+    </ol>
+  ) : (
+    <ul key={key} className="list-disc pl-6 space-y-1">
+      {items}
+    </ul>
+  );
+}
+
+function renderTable(table: Tokens.Table, key: number): React.ReactNode {
+  const getAlignClass = (index: number) =>
+    table.align[index] === 'center' ? 'text-center' : table.align[index] === 'right' ? 'text-right' : 'text-left';
+
+  return (
+    <div key={key} className="overflow-x-auto">
+      <table className="min-w-full border border-gray-200 text-sm">
+        <thead className="bg-gray-100">
+          <tr>
+            {table.header.map((cell, index) => (
+              <th key={index} className={`px-3 py-2 font-medium text-gray-900 border-b border-gray-200 ${getAlignClass(index)}`}>
+                {renderInline(cell.tokens)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-b border-gray-100">
+              {row.map((cell, index) => (
+                <td key={index} className={`px-3 py-2 ${getAlignClass(index)}`}>
+                  {renderInline(cell.tokens)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function renderInline(tokens: Token[] = []): React.ReactNode[] {
+  return tokens.map((token, key) => {
+    switch (token.type) {
+      case 'strong':
+        return <strong key={key} className="font-semibold text-gray-900">{renderInline((token as Tokens.Strong).tokens)}</strong>;
+      case 'em':
+        return <em key={key}>{renderInline((token as Tokens.Em).tokens)}</em>;
+      case 'del':
+        return <del key={key}>{renderInline((token as Tokens.Del).tokens)}</del>;
+      case 'codespan':
+        return (
+          <code key={key} className="px-1 py-0.5 rounded bg-gray-200 text-gray-900 font-mono text-xs">
+            {(token as Tokens.Codespan).text}
+          </code>
+        );
+      case 'link': {
+        const link = token as Tokens.Link;
+        if (!isSafeHref(link.href)) {
+          return <React.Fragment key={key}>{renderInline(link.tokens)}</React.Fragment>;
+        }
+        const isExternal = /^https?:/i.test(link.href);
+        return (
+          <a
+            key={key}
+            href={link.href}
+            title={link.title || undefined}
+            className="text-blue-600 hover:text-blue-800 underline"
+            target={isExternal ? '_blank' : undefined}
+            rel={isExternal ? 'noopener noreferrer' : undefined}
+          >
+            {renderInline(link.tokens)}
+          </a>
+        );
+      }
+      case 'image':
+        // Images aren't loaded from step data, the alt text stands in
+        return <React.Fragment key={key}>{(token as Tokens.Image).text}</React.Fragment>;
+      case 'br':
+        return <br key={key} />;
+      case 'text': {
+        const text = token as Tokens.Text;
+        return <React.Fragment key={key}>{text.tokens ? renderInline(text.tokens) : text.text}</React.Fragment>;
+      }
+      case 'escape':
+      case 'html':
+        return <React.Fragment key={key}>{(token as Tokens.Escape | Tokens.HTML).text}</React.Fragment>;
+      default:
+        return null;
+    }
+  });
+}
+
+export default Markdown;
@@ -0,0 +1,68 @@
+import React from 'react';
+import Link from 'next/link';
+
+interface PageShellProps {
+  children: React.ReactNode;
+}
+
+// Header and footer shared by the home page and the plan pages
+const PageShell: React.FC<PageShellProps> = ({ children }) => {
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                <Link href="/" className="hover:text-blue-700">JSS Upgrade Guide</Link>
+              </h1>
+              <p className="mt-2 text-lg text-gray-600">
+                Get step-by-step instructions for upgrading your JSS framework
+              </p>
+            </div>
+            <nav className="flex gap-4 text-sm">
+              <Link href="/compatibility" className="text-blue-700 hover:text-blue-900">Compatibility matrix</Link>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </main>
+
+      {/* Footer */}
+      <footer className="bg-gray-50 border-t border-gray-200 mt-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center">
+            <p className="text-sm text-gray-600">
+              © 2025 JSS Upgrade Guide. Built with Next.js and Tailwind CSS.
+            </p>
+            <div className="mt-4 flex justify-center space-x-6">
+              <a
+                href="https://doc.sitecore.com"
+                className="text-sm text-gray-500 hover:text-gray-700"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                JSS Documentation
+              </a>
+              <a
+                href="https://github.com/Sitecore"
+                className="text-sm text-gray-500 hover:text-gray-700"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                GitHub
+              </a>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default PageShell;
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import FrameworkVersionSelector from './FrameworkVersionSelector';
+import UpgradeSteps from './UpgradeSteps';
+import ExportMenu from './ExportMenu';
+import StepSearch from './StepSearch';
+import { UpgradeStep, Framework, UpgradePath, UpgradePlan, ProjectFeatures, ConsolidationMode } from '../types/upgrade-step';
+import { ProjectContext } from '../types/project';
+import { StepSearchResult } from '../types/search';
+import { PlanRequest, getFileViewUrl, getPlanUrl } from '../lib/plan-url';
+
+interface PlanExplorerProps {
+  // The plan a plan page rendered on the server, shown until the user asks for another one
+  initialRequest?: PlanRequest;
+  initialPlan?: UpgradePlan;
+}
+
+const PlanExplorer: React.FC<PlanExplorerProps> = ({ initialRequest, initialPlan }) => {
+  const [upgradeSteps, setUpgradeSteps] = useState<UpgradeStep[]>(initialPlan?.steps || []);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showSteps, setShowSteps] = useState(!!initialPlan);
+  const [currentRequest, setCurrentRequest] = useState<PlanRequest | null>(initialRequest || null);
+  const [warning, setWarning] = useState<string>(initialPlan?.warning || '');
+  const [upgradePath, setUpgradePath] = useState<UpgradePath | undefined>(initialPlan?.path);
+  const [projectFiles, setProjectFiles] = useState<string[] | undefined>(undefined);
+  const [isCreatingSession, setIsCreatingSession] = useState(false);
+  const router = useRouter();
+
+  // Run the plan's codemods against the uploaded project; the plan is still shown if this fails
+  const fetchCodemodPreview = async (
+    framework: Framework,
+    fromVersion: string,
+    toVersion: string,
+    project: ProjectContext,
+    features?: ProjectFeatures,
+    consolidate?: ConsolidationMode
+  ): Promise<UpgradeStep[] | null> => {
+    try {
+      const formData = new FormData();
+      formData.append('framework', framework);
+      formData.append('fromVersion', fromVersion);
+      formData.append('toVersion', toVersion);
+      formData.append('project', project.archive);
+      if (features) {
+        formData.append('features', JSON.stringify(features));
+      }
+      if (consolidate) {
+        formData.append('consolidate', consolidate);
+      }
+
+      const response = await fetch('/api/upgrade-steps/preview', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.steps || null;
+    } catch (error) {
+      console.error('Error fetching codemod preview:', error);
+      return null;
+    }
+  };
+
+  // Save the current plan as a shared checklist and open it
+  const handleStartSession = async () => {
+    if (!currentRequest) return;
+    setIsCreatingSession(true);
+
+    try {
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...currentRequest, projectFiles }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const session = await response.json();
+      router.push(`/sessions/${session.id}`);
+    } catch (error) {
+      console.error('Error creating upgrade session:', error);
+      setWarning('An error occurred while creating the shared checklist. Please try again.');
+      setIsCreatingSession(false);
+    }
+  };
+
+  const handleGetUpgradeSteps = async (
+    framework: Framework,
+    fromVersion: string,
+    toVersion: string,
+    project?: ProjectContext,
+    features?: ProjectFeatures
+  ) => {
+    setIsLoading(true);
+    setWarning('');
+    // The consolidation mode of the page carries over, so the list, the preview and a checklist match
+    const consolidate = currentRequest?.consolidate;
+
+    try {
+      const response = await fetch('/api/upgrade-steps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          framework,
+          fromVersion,
+          toVersion,
+          projectFiles: project?.files,
+          consolidate,
+          features,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      let steps: UpgradeStep[] = data.steps || [];
+      if (project && steps.length > 0) {
+        steps = await fetchCodemodPreview(framework, fromVersion, toVersion, project, features, consolidate) || steps;
+      }
+      setUpgradeSteps(steps);
+      setWarning(data.warning || '');
+      setUpgradePath(data.path);
+      setCurrentRequest({ framework, fromVersion, toVersion, features, consolidate });
+      setProjectFiles(project?.files);
+      setShowSteps(true);
+    } catch (error) {
+      console.error('Error fetching upgrade steps:', error);
+      setWarning('An error occurred while fetching upgrade steps. Please try again.');
+      setUpgradeSteps([]);
+      setUpgradePath(undefined);
+      setShowSteps(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A search result opens the plan page for the version hop the step belongs to
+  const handleSearchSelect = (result: StepSearchResult) => {
+    router.push(getPlanUrl({ framework: result.framework, fromVersion: result.from, toVersion: result.to }));
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Instructions */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-blue-900 mb-2">
+          Select the options that match your upgrade
+        </h2>
+        <p className="text-blue-800">
+          Choose your framework and the versions you want to upgrade between to get 
+          personalized upgrade instructions.
+        </p>
+      </div>
+
+      {/* Search */}
+      <div className="max-w-4xl mx-auto">
+        <StepSearch onSelect={handleSearchSelect} />
+      </div>
+
+      {/* Framework and Version Selector */}
+      <FrameworkVersionSelector
+        onGetUpgradeSteps={handleGetUpgradeSteps}
+        isLoading={isLoading}
+        selection={initialRequest}
+      />
+
+      {/* Upgrade Steps */}
+      {showSteps && currentRequest && (
+        <UpgradeSteps
+          steps={upgradeSteps}
+          framework={currentRequest.framework}
+          fromVersion={currentRequest.fromVersion}
+          toVersion={currentRequest.toVersion}
+          warning={warning}
+          path={upgradePath}
+          actions={
+            <div className="space-y-3">
+              <button
+                type="button"
+                onClick={handleStartSession}
+                disabled={isCreatingSession}
+                className="inline-flex items-center px-4 py-2 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50 disabled:opacity-50"
+              >
+                {isCreatingSession ? 'Creating checklist...' : 'Start shared checklist'}
+              </button>
+              <Link
+                href={getFileViewUrl(currentRequest)}
+                className="ml-2 inline-flex items-center px-4 py-2 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-white hover:bg-blue-50"
+              >
+                Changes by file
+              </Link>
+              <ExportMenu
+                query={{
+                  framework: currentRequest.framework,
+                  fromVersion: currentRequest.fromVersion,
+                  toVersion: currentRequest.toVersion,
+                  ...Object.fromEntries(Object.entries(currentRequest.features || {}).map(([key, value]) => [key, String(value)])),
+                  ...(currentRequest.consolidate ? { consolidate: currentRequest.consolidate } : {}),
+                }}
+              />
+            </div>
+          }
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlanExplorer;
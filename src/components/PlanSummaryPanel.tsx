@@ -0,0 +1,72 @@
+import React from 'react';
+import { UpgradeStep } from '../types/upgrade-step';
+import { PlanBreakdownRow, formatEffort, summarizePlan } from '../lib/plan-summary';
+import { getSeverityLabel } from '../lib/step-types';
+
+interface PlanSummaryPanelProps {
+  steps: UpgradeStep[];
+}
+
+const BreakdownTable: React.FC<{ title: string; rows: PlanBreakdownRow[] }> = ({ title, rows }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-left text-gray-500 border-b border-gray-200">
+        <th className="py-2 font-medium">{title}</th>
+        <th className="py-2 font-medium text-right">Steps</th>
+        <th className="py-2 font-medium text-right">Effort</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.label} className="border-b border-gray-100 last:border-0">
+          <td className="py-1.5 text-gray-900">{row.label}</td>
+          <td className="py-1.5 text-right text-gray-700">{row.steps}</td>
+          <td className="py-1.5 text-right text-gray-700">{formatEffort(row.effortHours)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const PlanSummaryPanel: React.FC<PlanSummaryPanelProps> = ({ steps }) => {
+  const summary = summarizePlan(steps);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Size of the upgrade</h3>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <dt className="text-xs text-gray-500">Estimated effort</dt>
+          <dd className="text-xl font-semibold text-gray-900">{formatEffort(summary.effortHours)}</dd>
+          {summary.unestimatedSteps > 0 && (
+            <dd className="text-xs text-gray-500">
+              plus {summary.unestimatedSteps} step{summary.unestimatedSteps === 1 ? '' : 's'} without an estimate
+            </dd>
+          )}
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">{getSeverityLabel('breaking')}</dt>
+          <dd className="text-xl font-semibold text-red-700">{summary.bySeverity.breaking}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">{getSeverityLabel('recommended')} / {getSeverityLabel('optional')}</dt>
+          <dd className="text-xl font-semibold text-gray-900">
+            {summary.bySeverity.recommended} / {summary.bySeverity.optional}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Production risk</dt>
+          <dd className="text-xl font-semibold text-orange-700">{summary.productionRiskSteps}</dd>
+        </div>
+      </dl>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <BreakdownTable title="Step type" rows={summary.byStepType} />
+        <BreakdownTable title="Version hop" rows={summary.byHop} />
+      </div>
+    </div>
+  );
+};
+
+export default PlanSummaryPanel;
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ProjectScanResult } from '../types/project';
+import { FRAMEWORKS } from '../lib/frameworks';
+
+interface ProjectUploadProps {
+  onScanComplete: (result: ProjectScanResult | null, archive: File | null) => void;
+  disabled?: boolean;
+}
+
+// Only package.json is scanned, so the frameworks installed with npm are the ones that can be found
+const npmPackages = FRAMEWORKS.filter(framework => framework.packageManager === 'npm').map(framework => framework.packageName);
+const missingFrameworkMessage = `No ${npmPackages.slice(0, -1).join(', ')} or ${npmPackages[npmPackages.length - 1]} dependency was found in package.json.`;
+
+const ProjectUpload: React.FC<ProjectUploadProps> = ({
+  onScanComplete,
+  disabled = false,
+}) => {
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanResult, setScanResult] = useState<ProjectScanResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const [inputKey, setInputKey] = useState(0);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsScanning(true);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/project-scan', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setScanResult(data);
+      onScanComplete(data, file);
+      if (!data.detected) {
+        setError(missingFrameworkMessage);
+      }
+    } catch (scanError) {
+      console.error('Error scanning project:', scanError);
+      setError(scanError instanceof Error ? scanError.message : 'An error occurred while scanning the project.');
+      setScanResult(null);
+      onScanComplete(null, null);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleClear = () => {
+    setScanResult(null);
+    setError('');
+    setInputKey(key => key + 1);
+    onScanComplete(null, null);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Upload package.json or project archive (.zip, .tar.gz)
+      </label>
+      <div className="flex items-center gap-4">
+        <input
+          key={inputKey}
+          type="file"
+          accept=".json,.zip,.tar,.gz,.tgz"
+          onChange={handleFileChange}
+          disabled={disabled || isScanning}
+          className="block text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+        {scanResult && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isScanning && (
+        <p className="mt-2 text-sm text-gray-600">Scanning project...</p>
+      )}
+
+      {scanResult?.detected && (
+        <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-800">
+            Detected <span className="font-medium">{scanResult.detected.framework}</span>{' '}
+            <span className="font-medium">{scanResult.detected.version}</span>{' '}
+            ({scanResult.detected.packageName}@{scanResult.detected.packageVersion})
+          </p>
+          <p className="mt-1 text-sm text-green-700">
+            {scanResult.hasSourceFiles
+              ? `${scanResult.files.length} project files scanned. Steps for files your project doesn't have will be marked as not applicable.`
+              : 'Only package.json was uploaded, so steps are not checked against your project files.'}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectUpload;
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState } from 'react';
+import { UpgradeSession } from '../types/upgrade-session';
+
+interface ProjectVerificationProps {
+  sessionId: string;
+  onVerified: (session: UpgradeSession) => void;
+}
+
+// Runs the steps' verification rules against an uploaded project; steps that pass are ticked off
+const ProjectVerification: React.FC<ProjectVerificationProps> = ({ sessionId, onVerified }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleVerify = async () => {
+    if (!file) return;
+    setIsVerifying(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const formData = new FormData();
+      formData.append('project', file);
+
+      const response = await fetch(`/api/sessions/${sessionId}/verify`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const session = data as UpgradeSession;
+      const checks = Object.values(session.progress).map(progress => progress.verification).filter(Boolean);
+      const passed = checks.filter(check => check?.status === 'pass').length;
+      const failed = checks.filter(check => check?.status === 'fail').length;
+      setMessage(checks.length === 0
+        ? 'None of the steps have verification rules.'
+        : `${passed} step${passed === 1 ? '' : 's'} verified, ${failed} failed.`);
+      onVerified(session);
+    } catch (verifyError) {
+      console.error('Error verifying the project:', verifyError);
+      setError(verifyError instanceof Error ? verifyError.message : 'An error occurred while verifying the project.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-blue-900 mb-2">
+        Verify against your project (package.json or .zip, .tar.gz archive)
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          accept=".json,.zip,.tar,.gz,.tgz"
+          onChange={(e) => { setFile(e.target.files?.[0] || null); setMessage(''); }}
+          disabled={isVerifying}
+          className="block text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+        <button
+          type="button"
+          onClick={handleVerify}
+          disabled={!file || isVerifying}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          {isVerifying ? 'Verifying...' : 'Verify'}
+        </button>
+      </div>
+      {message && <p className="mt-2 text-sm text-blue-800">{message}</p>}
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default ProjectVerification;
@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useState } from 'react';
+import Dropdown from './Dropdown';
+import FeatureQuestionnaire from './FeatureQuestionnaire';
+import { Framework, ProjectFeatures, STEP_SEVERITIES, StepSeverity, UpgradeStep } from '../types/upgrade-step';
+import { FRAMEWORKS } from '../lib/frameworks';
+import { STEP_TYPES, getSeverityLabel, getStepTypeLabel } from '../lib/step-types';
+
+interface StepEditorProps {
+  framework: Framework;
+  step: UpgradeStep;
+  onFrameworkChange: (framework: Framework) => void;
+  onStepChange: (step: UpgradeStep) => void;
+  // Called with an empty string once the operations and verification JSON parse again
+  onOperationsError: (error: string) => void;
+  disabled?: boolean;
+}
+
+type OptionalField = 'id' | 'dependsOn' | 'stepType' | 'affectedFile' | 'severity' | 'effortHours' | 'productionRisk' | 'rollback' | 'irreversible';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const StepEditor: React.FC<StepEditorProps> = ({
+  framework,
+  step,
+  onFrameworkChange,
+  onStepChange,
+  onOperationsError,
+  disabled = false,
+}) => {
+  const [operationsText, setOperationsText] = useState(step.operations ? JSON.stringify(step.operations, null, 2) : '');
+  const [operationsError, setOperationsError] = useState('');
+  const [verificationText, setVerificationText] = useState(step.verification ? JSON.stringify(step.verification, null, 2) : '');
+  const [verificationError, setVerificationError] = useState('');
+  const [dependsOnText, setDependsOnText] = useState(step.dependsOn?.join(', ') || '');
+
+  // Optional fields are left out of the step when empty or false, as in the data files
+  const updateOptionalField = <K extends OptionalField>(field: K, value: UpgradeStep[K] | '') => {
+    const updated = { ...step };
+    if (value !== '' && value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0)) {
+      updated[field] = value;
+    } else {
+      delete updated[field];
+    }
+    onStepChange(updated);
+  };
+
+  const handleConditionsChange = (conditions: ProjectFeatures) => {
+    const updated: UpgradeStep = { ...step, conditions };
+    if (Object.keys(conditions).length === 0) {
+      delete updated.conditions;
+    }
+    onStepChange(updated);
+  };
+
+  // Ids are typed as a comma-separated list
+  const handleDependsOnChange = (value: string) => {
+    setDependsOnText(value);
+    updateOptionalField('dependsOn', value.split(/[\s,]+/).filter(Boolean));
+  };
+
+  // Operations and verification rules are edited as JSON; the schema check on save validates their shape
+  const parseJsonField = (field: 'operations' | 'verification', label: string, value: string): string => {
+    let error = '';
+    const updated = { ...step };
+    if (!value.trim()) {
+      delete updated[field];
+    } else {
+      try {
+        updated[field] = JSON.parse(value);
+      } catch (parseError) {
+        error = `${label} are not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
+      }
+    }
+    if (!error) {
+      onStepChange(updated);
+    }
+    return error;
+  };
+
+  const handleOperationsChange = (value: string) => {
+    setOperationsText(value);
+    const error = parseJsonField('operations', 'Operations', value);
+    setOperationsError(error);
+    onOperationsError(error || verificationError);
+  };
+
+  const handleVerificationChange = (value: string) => {
+    setVerificationText(value);
+    const error = parseJsonField('verification', 'Verification rules', value);
+    setVerificationError(error);
+    onOperationsError(operationsError || error);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Dropdown
+          label="Framework"
+          options={FRAMEWORKS.map(({ id, name }) => ({ value: id, label: name }))}
+          value={framework}
+          onChange={onFrameworkChange}
+          disabled={disabled}
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+          <input
+            className={inputClassName}
+            value={step.from}
+            onChange={(e) => onStepChange({ ...step, from: e.target.value })}
+            placeholder="22.8"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+          <input
+            className={inputClassName}
+            value={step.to}
+            onChange={(e) => onStepChange({ ...step, to: e.target.value })}
+            placeholder="22.9"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Instruction</label>
+        <input
+          className={inputClassName}
+          value={step.instruction}
+          onChange={(e) => onStepChange({ ...step, instruction: e.target.value })}
+          placeholder="Update the @sitecore-jss/sitecore-jss-nextjs package to 22.9"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Id</label>
+          <input
+            className={`${inputClassName} font-mono`}
+            value={step.id || ''}
+            onChange={(e) => updateOptionalField('id', e.target.value)}
+            placeholder={`${framework}-22.9-rendering-host`}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Depends on (step ids)</label>
+          <input
+            className={`${inputClassName} font-mono`}
+            value={dependsOnText}
+            onChange={(e) => handleDependsOnChange(e.target.value)}
+            placeholder={`${framework}-22.9-package`}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Detailed description (Markdown)</label>
+        <textarea
+          className={`${inputClassName} font-mono`}
+          rows={12}
+          value={step.detailedDescription}
+          onChange={(e) => onStepChange({ ...step, detailedDescription: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Dropdown
+          label="Step type"
+          options={[
+            { value: '', label: 'None' },
+            ...STEP_TYPES.map(stepType => ({ value: stepType, label: getStepTypeLabel(stepType) })),
+          ]}
+          value={step.stepType || ''}
+          onChange={(value) => updateOptionalField('stepType', value)}
+          disabled={disabled}
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Affected file</label>
+          <input
+            className={`${inputClassName} font-mono`}
+            value={step.affectedFile || ''}
+            onChange={(e) => updateOptionalField('affectedFile', e.target.value)}
+            placeholder="src/lib/dictionary-service-factory.ts"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Dropdown
+          label="Severity"
+          options={[
+            { value: '', label: 'None' },
+            ...STEP_SEVERITIES.map(severity => ({ value: severity, label: getSeverityLabel(severity) })),
+          ]}
+          value={step.severity || ''}
+          onChange={(value) => updateOptionalField('severity', value as StepSeverity | '')}
+          disabled={disabled}
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Effort (hours)</label>
+          <input
+            type="number"
+            min="0.5"
+            step="0.5"
+            className={inputClassName}
+            value={step.effortHours ?? ''}
+            onChange={(e) => updateOptionalField('effortHours', e.target.value === '' ? '' : Number(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-8">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={!!step.productionRisk}
+            onChange={(e) => updateOptionalField('productionRisk', e.target.checked)}
+            disabled={disabled}
+          />
+          Production risk
+        </label>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">How to undo the step (Markdown, optional)</label>
+        <textarea
+          className={`${inputClassName} font-mono`}
+          rows={4}
+          value={step.rollback || ''}
+          onChange={(e) => updateOptionalField('rollback', e.target.value)}
+          disabled={disabled}
+        />
+        <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={!!step.irreversible}
+            onChange={(e) => updateOptionalField('irreversible', e.target.checked)}
+            disabled={disabled}
+          />
+          Irreversible: rollback plans flag the step as having no safe reverse
+        </label>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Conditions</h3>
+        <FeatureQuestionnaire
+          features={step.conditions || {}}
+          onChange={handleConditionsChange}
+          disabled={disabled}
+          unansweredLabel="Any project"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Operations (JSON array, optional)</label>
+        <textarea
+          className={`${inputClassName} font-mono`}
+          rows={6}
+          value={operationsText}
+          onChange={(e) => handleOperationsChange(e.target.value)}
+          placeholder='[{ "type": "package-version", "package": "@sitecore-jss/sitecore-jss-nextjs", "version": "22.9.0" }]'
+          disabled={disabled}
+        />
+        {operationsError && (
+          <p className="mt-1 text-sm text-red-700">{operationsError}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Verification rules (JSON array, optional)</label>
+        <textarea
+          className={`${inputClassName} font-mono`}
+          rows={4}
+          value={verificationText}
+          onChange={(e) => handleVerificationChange(e.target.value)}
+          placeholder='[{ "type": "env-var", "name": "GRAPH_QL_ENDPOINT" }]'
+          disabled={disabled}
+        />
+        {verificationError && (
+          <p className="mt-1 text-sm text-red-700">{verificationError}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StepEditor;
@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import Dropdown from './Dropdown';
+import { CompletionFilter, STEP_GROUPINGS, STEP_LIST_MODES, StepFilters, StepGrouping, StepListMode } from '../lib/step-list';
+
+interface StepListControlsProps {
+  filters: StepFilters;
+  onFiltersChange: (filters: StepFilters) => void;
+  stepTypes: string[];
+  files: string[];
+  showCompletion: boolean; // Only checklists have a completion state
+  grouping: StepGrouping;
+  onGroupingChange: (grouping: StepGrouping) => void;
+  mode: StepListMode;
+  onModeChange: (mode: StepListMode) => void;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+}
+
+const groupingLabels: Record<StepGrouping, string> = {
+  'none': 'No grouping',
+  'hop': 'Version hop',
+  'type': 'Step type',
+  'file': 'File',
+};
+
+const modeLabels: Record<StepListMode, string> = {
+  'cards': 'Cards',
+  'table': 'Table',
+};
+
+const completionOptions: { value: CompletionFilter; label: string }[] = [
+  { value: 'all', label: 'All steps' },
+  { value: 'open', label: 'Still to do' },
+  { value: 'finished', label: 'Done or skipped' },
+];
+
+const buttonClassName = 'inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50';
+
+const StepListControls: React.FC<StepListControlsProps> = ({
+  filters,
+  onFiltersChange,
+  stepTypes,
+  files,
+  showCompletion,
+  grouping,
+  onGroupingChange,
+  mode,
+  onModeChange,
+  onExpandAll,
+  onCollapseAll,
+}) => {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className={`grid grid-cols-1 gap-4 ${showCompletion ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+        <Dropdown
+          label="Step type"
+          options={[{ value: '', label: 'All types' }, ...stepTypes.map(stepType => ({ value: stepType, label: stepType }))]}
+          value={stepTypes.includes(filters.stepType) ? filters.stepType : ''}
+          onChange={(value) => onFiltersChange({ ...filters, stepType: value })}
+        />
+        <Dropdown
+          label="File"
+          options={[{ value: '', label: 'All files' }, ...files.map(file => ({ value: file, label: file }))]}
+          value={files.includes(filters.file) ? filters.file : ''}
+          onChange={(value) => onFiltersChange({ ...filters, file: value })}
+        />
+        {showCompletion && (
+          <Dropdown
+            label="Completion"
+            options={completionOptions}
+            value={filters.completion}
+            onChange={(value) => onFiltersChange({ ...filters, completion: value as CompletionFilter })}
+          />
+        )}
+        <Dropdown
+          label="Group by"
+          options={STEP_GROUPINGS.map(value => ({ value, label: groupingLabels[value] }))}
+          value={grouping}
+          onChange={(value) => onGroupingChange(value as StepGrouping)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="View">
+          {STEP_LIST_MODES.map((value, index) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={mode === value}
+              onClick={() => onModeChange(value)}
+              className={`px-3 py-1.5 text-sm font-medium border ${index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md'} ${
+                mode === value
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {modeLabels[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button type="button" className={buttonClassName} onClick={onExpandAll}>
+            Expand all
+          </button>
+          <button type="button" className={buttonClassName} onClick={onCollapseAll}>
+            Collapse all
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StepListControls;
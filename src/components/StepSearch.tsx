@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { SearchHighlight, StepSearchResponse, StepSearchResult } from '../types/search';
+import { getFrameworkName } from '../lib/frameworks';
+
+interface StepSearchProps {
+  onSelect: (result: StepSearchResult) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 300;
+
+const HighlightedText: React.FC<{ highlight: SearchHighlight }> = ({ highlight }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlight.ranges.forEach(([start, end]) => {
+    parts.push(highlight.text.slice(position, start));
+    parts.push(<mark key={start} className="bg-yellow-200 text-gray-900 rounded-sm">{highlight.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(highlight.text.slice(position));
+  return <>{parts}</>;
+};
+
+const StepSearch: React.FC<StepSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<StepSearchResponse | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResponse(null);
+      setError('');
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await fetch(`/api/search?${new URLSearchParams({ q: query }).toString()}`, { signal: controller.signal });
+        if (!result.ok) {
+          throw new Error(`HTTP error! status: ${result.status}`);
+        }
+        setResponse(await result.json());
+        setError('');
+      } catch (searchError) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching upgrade steps:', searchError);
+        setError('An error occurred while searching. Please try again.');
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  const getHighlight = (result: StepSearchResult, field: SearchHighlight['field']) =>
+    result.highlights.find(highlight => highlight.field === field);
+
+  return (
+    <div>
+      <label htmlFor="step-search" className="block text-sm font-medium text-gray-700 mb-2">
+        Search all upgrade steps
+      </label>
+      <input
+        id="step-search"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="e.g. middleware.ts or publicRuntimeConfig"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      {error && (
+        <p className="mt-2 text-sm text-red-700">{error}</p>
+      )}
+
+      {response && (
+        <div className="mt-3">
+          <p className="text-sm text-gray-600 mb-2">
+            {response.total === 0
+              ? 'No steps match your search.'
+              : `${response.total} matching step${response.total === 1 ? '' : 's'}${response.total > response.results.length ? `, showing the best ${response.results.length}` : ''}`}
+          </p>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+            {response.results.map(result => {
+              const instruction = getHighlight(result, 'instruction');
+              const affectedFile = getHighlight(result, 'affectedFile');
+              const snippet = getHighlight(result, 'code') || getHighlight(result, 'description');
+              return (
+                <li key={result.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(result)}
+                    className="w-full text-left px-4 py-3 hover:bg-blue-50 focus:outline-none focus:bg-blue-50"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span className="font-medium text-blue-700">
+                        {getFrameworkName(result.framework)} {result.from} → {result.to}
+                      </span>
+                      {result.affectedFile && (
+                        <span className="font-mono">
+                          {affectedFile ? <HighlightedText highlight={affectedFile} /> : result.affectedFile}
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm font-medium text-gray-900">
+                      {instruction ? <HighlightedText highlight={instruction} /> : result.instruction}
+                    </p>
+                    {snippet && (
+                      <p className={`mt-1 text-xs text-gray-600 ${snippet.field === 'code' ? 'font-mono' : ''}`}>
+                        <HighlightedText highlight={snippet} />
+                      </p>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepSearch;
@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useState } from 'react';
+import { StepSource } from '../types/upgrade-step';
+import Markdown from './Markdown';
+import { getStepTypeLabel } from '../lib/step-types';
+
+interface StepSourcesProps {
+  sources: StepSource[];
+}
+
+// The original per-version steps behind a consolidated step, each one expandable
+const StepSources: React.FC<StepSourcesProps> = ({ sources }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  return (
+    <ul className="space-y-2">
+      {sources.map((source, index) => (
+        <li key={index} className="border border-gray-200 rounded-md bg-white">
+          <button
+            type="button"
+            className="w-full px-4 py-2 text-left flex items-center justify-between gap-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset"
+            onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+          >
+            <span className="text-sm text-gray-900">{source.instruction}</span>
+            <span className="flex-shrink-0 text-xs text-gray-500">
+              {getStepTypeLabel(source.stepType)} · {source.from} → {source.to}
+            </span>
+          </button>
+          {expandedIndex === index && (
+            <div className="px-4 pb-4 border-t border-gray-100">
+              {source.affectedFile && (
+                <p className="mt-2 text-xs text-gray-500 font-mono">{source.affectedFile}</p>
+              )}
+              <div className="mt-2">
+                <Markdown source={source.detailedDescription} />
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default StepSources;
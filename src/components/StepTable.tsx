@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import { UpgradeStep } from '../types/upgrade-step';
+import { StepProgress, StepStatus } from '../types/upgrade-session';
+import { getSeverityLabel, getStepStatusLabel, getStepTypeLabel } from '../lib/step-types';
+import { formatEffort } from '../lib/plan-summary';
+
+export interface StepTableRow {
+  stepIndex: number;
+  stepNumber: number;
+  step: UpgradeStep;
+  blockedBy: number[];
+}
+
+interface StepTableProps {
+  rows: StepTableRow[];
+  progress?: Record<string, StepProgress>;
+  onProgressChange?: (stepIndex: number, progress: { status: StepStatus; note?: string }) => void;
+  // Shows the step with its full instructions in the card view
+  onOpenStep: (stepIndex: number) => void;
+}
+
+// Compact view of a plan: one line per step, the details are in the card view
+const StepTable: React.FC<StepTableProps> = ({ rows, progress, onProgressChange, onOpenStep }) => {
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            {onProgressChange && <th className="px-3 py-2 font-medium"><span className="sr-only">Done</span></th>}
+            <th className="px-3 py-2 font-medium">#</th>
+            <th className="px-3 py-2 font-medium">Step</th>
+            <th className="px-3 py-2 font-medium">Type</th>
+            <th className="px-3 py-2 font-medium">File</th>
+            <th className="px-3 py-2 font-medium">Versions</th>
+            <th className="px-3 py-2 font-medium">Effort</th>
+            {progress && <th className="px-3 py-2 font-medium">Status</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ stepIndex, stepNumber, step, blockedBy }) => {
+            const stepProgress = progress?.[stepIndex];
+            const status = stepProgress?.status || 'todo';
+
+            return (
+              <tr
+                key={stepIndex}
+                className={`border-b border-gray-100 last:border-0 align-top ${step.applicable === false ? 'opacity-60' : ''}`}
+              >
+                {onProgressChange && (
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={status === 'done'}
+                      onChange={(e) => onProgressChange(stepIndex, { status: e.target.checked ? 'done' : 'todo', note: stepProgress?.note })}
+                      aria-label={`Mark step ${stepNumber} as done`}
+                    />
+                  </td>
+                )}
+                <td className="px-3 py-2 text-gray-500">{stepNumber}</td>
+                <td className="px-3 py-2">
+                  <button
+                    type="button"
+                    className="text-left font-medium text-gray-900 hover:text-blue-700"
+                    onClick={() => onOpenStep(stepIndex)}
+                  >
+                    {step.instruction}
+                  </button>
+                  <div className="mt-0.5 flex flex-wrap gap-x-2 text-xs">
+                    {step.severity && <span className="text-gray-500">{getSeverityLabel(step.severity)}</span>}
+                    {step.productionRisk && <span className="text-orange-700">Production risk</span>}
+                    {step.irreversible && <span className="text-red-700">Irreversible</span>}
+                    {blockedBy.length > 0 && (
+                      <span className="text-rose-700">Blocked by step{blockedBy.length === 1 ? '' : 's'} {blockedBy.join(', ')}</span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{getStepTypeLabel(step.stepType)}</td>
+                <td className="px-3 py-2 font-mono text-xs text-gray-700 break-all">{step.affectedFile || '—'}</td>
+                <td className="px-3 py-2 text-gray-500 whitespace-nowrap">{step.from} → {step.to}</td>
+                <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
+                  {step.effortHours !== undefined ? formatEffort(step.effortHours) : '—'}
+                </td>
+                {progress && (
+                  <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{getStepStatusLabel(status)}</td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StepTable;
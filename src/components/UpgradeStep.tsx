@@ -1,44 +1,88 @@
 'use client';
 
-import React, { useState } from 'react';
-import { UpgradeStep as UpgradeStepType } from '../types/upgrade-step';
+import React, { useEffect, useState } from 'react';
+import { StepSeverity, UpgradeStep as UpgradeStepType } from '../types/upgrade-step';
+import { STEP_STATUSES, StepProgress, StepStatus } from '../types/upgrade-session';
+import { VerificationStatus } from '../types/verification';
+import DiffView from './DiffView';
+import Markdown from './Markdown';
+import StepSources from './StepSources';
+import { getSeverityLabel, getStepStatusLabel, getStepTypeLabel } from '../lib/step-types';
+import { formatEffort } from '../lib/plan-summary';
+import { getConditionLabels } from '../lib/project-features';
 
 interface UpgradeStepProps {
   step: UpgradeStepType;
   stepNumber: number;
+  progress?: StepProgress;
+  // Only set for steps that belong to a shared session
+  onProgressChange?: (progress: { status: StepStatus; note?: string }) => void;
+  defaultExpanded?: boolean;
+  // Set by lists that expand and collapse all their steps at once
+  isExpanded?: boolean;
+  onExpandedChange?: (expanded: boolean) => void;
+  blockedBy?: number[]; // Numbers of the steps this one has to wait for
 }
 
-const UpgradeStep: React.FC<UpgradeStepProps> = ({ step, stepNumber }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
-
-  const formatDetailedDescription = (description: string) => {
-    return description.split('\n').map((line, index) => {
-      if (line.startsWith('```')) {
-        return null; // Skip code block markers for now
-      }
-      if (line.trim().startsWith('#')) {
-        return (
-          <h4 key={index} className="font-semibold text-gray-900 mt-4 mb-2">
-            {line.replace(/^#+\s*/, '')}
-          </h4>
-        );
-      }
-      if (line.trim().startsWith('- ') || line.trim().startsWith('* ')) {
-        return (
-          <li key={index} className="ml-4 text-gray-700">
-            {line.replace(/^[\s\-\*]+/, '')}
-          </li>
-        );
-      }
-      if (line.trim().length === 0) {
-        return <br key={index} />;
-      }
-      return (
-        <p key={index} className="text-gray-700 mb-2">
-          {line}
-        </p>
-      );
-    });
+const statusColors: Record<StepStatus, string> = {
+  'todo': 'bg-gray-100 text-gray-700',
+  'in-progress': 'bg-amber-100 text-amber-800',
+  'done': 'bg-green-100 text-green-800',
+  'skipped': 'bg-gray-200 text-gray-600',
+};
+
+const verificationLabels: Record<VerificationStatus, string> = {
+  'pass': 'Verified',
+  'fail': 'Check failed',
+  'unknown': "Couldn't check",
+};
+
+const verificationColors: Record<VerificationStatus, string> = {
+  'pass': 'bg-green-100 text-green-800',
+  'fail': 'bg-red-100 text-red-800',
+  'unknown': 'bg-gray-100 text-gray-600',
+};
+
+const severityColors: Record<StepSeverity, string> = {
+  'breaking': 'bg-red-100 text-red-800',
+  'recommended': 'bg-amber-100 text-amber-800',
+  'optional': 'bg-gray-100 text-gray-600',
+};
+
+const UpgradeStep: React.FC<UpgradeStepProps> = ({
+  step,
+  stepNumber,
+  progress,
+  onProgressChange,
+  defaultExpanded = false,
+  isExpanded: controlledExpanded,
+  onExpandedChange,
+  blockedBy = [],
+}) => {
+  const [expandedState, setExpandedState] = useState(defaultExpanded);
+  const isExpanded = controlledExpanded ?? expandedState;
+  const setIsExpanded = onExpandedChange || setExpandedState;
+  const [showSources, setShowSources] = useState(false);
+  const [note, setNote] = useState(progress?.note || '');
+  const status = progress?.status || 'todo';
+
+  // Pick up notes saved by teammates
+  useEffect(() => {
+    setNote(progress?.note || '');
+  }, [progress?.note]);
+
+  const handleCheckboxChange = (checked: boolean) => {
+    onProgressChange?.({ status: checked ? 'done' : 'todo', note: progress?.note });
+  };
+
+  const handleStatusChange = (value: StepStatus) => {
+    onProgressChange?.({ status: value, note: progress?.note });
+  };
+
+  const handleNoteBlur = () => {
+    if (note !== (progress?.note || '')) {
+      onProgressChange?.({ status, note });
+    }
   };
 
   const getStepTypeColor = (stepType?: string) => {
@@ -53,78 +97,169 @@ const UpgradeStep: React.FC<UpgradeStepProps> = ({ step, stepNumber }) => {
     return colors[stepType || 'default'] || 'bg-gray-100 text-gray-800';
   };
 
-  const getStepTypeLabel = (stepType?: string) => {
-    const labels: Record<string, string> = {
-      'package-update': 'Package Update',
-      'dependencies': 'Dependencies',
-      'configuration': 'Configuration',
-      'code-update': 'Code Update',
-      'testing': 'Testing',
-      'deployment': 'Deployment'
-    };
-    return labels[stepType || 'default'] || 'General';
-  };
-
   return (
-    <div className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow">
+    <div className={`border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow ${step.applicable === false ? 'opacity-60' : ''}`}>
       {/* Step Header - Always Visible */}
-      <input type="checkbox" className="mr-2" />
-      <button
-        className="w-full px-6 py-4 text-left focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset"
-        onClick={() => setIsExpanded(!isExpanded)}
-      >
-        <div className="flex items-start justify-between">
-          <div className="flex items-start space-x-4 flex-1">
-            {/* Step Number */}
-            <div className="flex-shrink-0">
-              <div className="flex items-center justify-center h-8 w-8 rounded-full bg-blue-100 text-blue-600 text-sm font-medium">
-                {stepNumber}
+      <div className="flex items-start">
+        {onProgressChange && (
+          <div className="pl-6 pt-6">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={status === 'done'}
+              onChange={(e) => handleCheckboxChange(e.target.checked)}
+              aria-label={`Mark step ${stepNumber} as done`}
+            />
+          </div>
+        )}
+        <button
+          className="w-full px-6 py-4 text-left focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-4 flex-1">
+              {/* Step Number */}
+              <div className="flex-shrink-0">
+                <div className="flex items-center justify-center h-8 w-8 rounded-full bg-blue-100 text-blue-600 text-sm font-medium">
+                  {stepNumber}
+                </div>
               </div>
-            </div>
-            
-            {/* Step Content */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-2">
-                {/* Step Type Badge */}
-                {step.stepType && (
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStepTypeColor(step.stepType)}`}>
-                    {getStepTypeLabel(step.stepType)}
+              
+              {/* Step Content */}
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  {/* Step Type Badge */}
+                  {step.stepType && (
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStepTypeColor(step.stepType)}`}>
+                      {getStepTypeLabel(step.stepType)}
+                    </span>
+                  )}
+                  
+                  {/* Severity */}
+                  {step.severity && (
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${severityColors[step.severity]}`}>
+                      {getSeverityLabel(step.severity)}
+                    </span>
+                  )}
+
+                  {/* Production Risk */}
+                  {step.productionRisk && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                      Production risk
+                    </span>
+                  )}
+
+                  {/* No Safe Reverse */}
+                  {step.irreversible && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      Irreversible
+                    </span>
+                  )}
+
+                  {/* Dependencies */}
+                  {blockedBy.length > 0 && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-rose-100 text-rose-800">
+                      Blocked by step{blockedBy.length === 1 ? '' : 's'} {blockedBy.join(', ')}
+                    </span>
+                  )}
+
+                  {/* Checklist Status */}
+                  {progress && status !== 'todo' && (
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusColors[status]}`}>
+                      {getStepStatusLabel(status)}
+                    </span>
+                  )}
+
+                  {/* Project Check */}
+                  {progress?.verification && (
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${verificationColors[progress.verification.status]}`}>
+                      {verificationLabels[progress.verification.status]}
+                    </span>
+                  )}
+
+                  {/* Project Applicability */}
+                  {step.applicable === false && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                      Not applicable
+                    </span>
+                  )}
+
+                  {/* Codemod Preview */}
+                  {step.preview && step.preview.diffs.length > 0 && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                      {step.preview.diffs.length} file change{step.preview.diffs.length === 1 ? '' : 's'}
+                    </span>
+                  )}
+
+                  {/* Feature Conditions */}
+                  {step.conditions && getConditionLabels(step.conditions).map((label) => (
+                    <span key={label} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-sky-100 text-sky-800">
+                      Only for {label}
+                    </span>
+                  ))}
+
+                  {/* Consolidation */}
+                  {step.sources && step.sources.length > 1 && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      Merged from {step.sources.length} steps
+                    </span>
+                  )}
+
+                  {/* Version Range */}
+                  <span className="text-xs text-gray-500">
+                    {step.from} → {step.to}
                   </span>
-                )}
+
+                  {/* Effort */}
+                  {step.effortHours !== undefined && (
+                    <span className="text-xs text-gray-500">
+                      ~{formatEffort(step.effortHours)}
+                    </span>
+                  )}
+                </div>
                 
-                {/* Version Range */}
-                <span className="text-xs text-gray-500">
-                  {step.from} → {step.to}
-                </span>
+                {/* Step Instruction */}
+                <h3 className="text-sm font-medium text-gray-900 leading-relaxed">
+                  {step.instruction}
+                </h3>
+
+                {/* Affected File */}
+                {step.affectedFile && (
+                  <p className="mt-1 text-xs text-gray-500 font-mono">
+                    {step.affectedFile}
+                  </p>
+                )}
+
+                {/* Why the step can be skipped */}
+                {step.applicable === false && step.notApplicableReason && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {step.notApplicableReason}
+                  </p>
+                )}
               </div>
-              
-              {/* Step Instruction */}
-              <h3 className="text-sm font-medium text-gray-900 leading-relaxed">
-                {step.instruction}
-              </h3>
+            </div>
+            
+            {/* Expand/Collapse Icon */}
+            <div className="flex-shrink-0 ml-4">
+              <svg
+                className={`h-5 w-5 text-gray-400 transform transition-transform duration-200 ${
+                  isExpanded ? 'rotate-180' : ''
+                }`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M19 9l-7 7-7-7"
+                />
+              </svg>
             </div>
           </div>
-          
-          {/* Expand/Collapse Icon */}
-          <div className="flex-shrink-0 ml-4">
-            <svg
-              className={`h-5 w-5 text-gray-400 transform transition-transform duration-200 ${
-                isExpanded ? 'rotate-180' : ''
-              }`}
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth="2"
-                d="M19 9l-7 7-7-7"
-              />
-            </svg>
-          </div>
-        </div>
-      </button>
+        </button>
+      </div>
 
       {/* Detailed Description - Expandable */}
       {isExpanded && (
@@ -133,37 +268,111 @@ const UpgradeStep: React.FC<UpgradeStepProps> = ({ step, stepNumber }) => {
             <h4 className="text-sm font-semibold text-gray-900 mb-3">
               Detailed Instructions
             </h4>
-            <div className="prose prose-sm max-w-none">
-              <div className="space-y-2">
-                {formatDetailedDescription(step.detailedDescription)}
+            <Markdown source={step.detailedDescription} />
+
+            {/* Reverse Instructions */}
+            {step.rollback && (
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                  How to Undo This Step
+                </h4>
+                <Markdown source={step.rollback} />
               </div>
-            </div>
-            
-            {/* Code blocks handling */}
-            {step.detailedDescription.includes('```') && (
-              <div className="mt-4">
-                {step.detailedDescription.split('```').map((block, index) => {
-                  if (index % 2 === 1) {
-                    // This is a code block
-                    const lines = block.split('\n');
-                    const language = lines[0] || '';
-                    const code = lines.slice(1).join('\n');
-                    
-                    return (
-                      <div key={index} className="my-4">
-                        <div className="bg-gray-900 rounded-t-md px-4 py-2">
-                          <span className="text-gray-400 text-xs font-mono">
-                            {language || 'code'}
-                          </span>
-                        </div>
-                        <pre className="bg-gray-800 text-gray-100 p-4 rounded-b-md overflow-x-auto">
-                          <code className="text-sm font-mono">{code}</code>
-                        </pre>
-                      </div>
-                    );
-                  }
-                  return null;
-                })}
+            )}
+
+            {/* Original Steps */}
+            {step.sources && step.sources.length > 1 && (
+              <div className="mt-6">
+                <button
+                  type="button"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  onClick={() => setShowSources(!showSources)}
+                >
+                  {showSources ? 'Hide' : 'Show'} the {step.sources.length} original steps merged into this one
+                </button>
+                {showSources && (
+                  <div className="mt-3">
+                    <StepSources sources={step.sources} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Verification Evidence */}
+            {progress?.verification && (
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                  Project Check
+                </h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  Checked {new Date(progress.verification.checkedAt).toLocaleString()}
+                </p>
+                <ul className="space-y-1">
+                  {progress.verification.results.map((result, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm">
+                      <span className={`flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${verificationColors[result.status]}`}>
+                        {verificationLabels[result.status]}
+                      </span>
+                      <span className="font-mono text-xs text-gray-700 break-all">{result.evidence}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Checklist Progress */}
+            {onProgressChange && (
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Status
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 text-sm"
+                    value={status}
+                    onChange={(e) => handleStatusChange(e.target.value as StepStatus)}
+                  >
+                    {STEP_STATUSES.map((value) => (
+                      <option key={value} value={value}>
+                        {getStepStatusLabel(value)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Note
+                  </label>
+                  <textarea
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 text-sm"
+                    rows={2}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onBlur={handleNoteBlur}
+                    placeholder="Who is on it, what was changed, why it was skipped..."
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Proposed Changes */}
+            {step.preview && (step.preview.diffs.length > 0 || step.preview.messages.length > 0) && (
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                  Proposed Changes
+                </h4>
+                {step.preview.diffs.map((fileDiff) => (
+                  <DiffView key={fileDiff.file} fileDiff={fileDiff} />
+                ))}
+                {step.preview.messages.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {step.preview.messages.map((message, index) => (
+                      <li key={index} className="text-sm text-yellow-700">
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
           </div>
@@ -1,62 +1,244 @@
-import React from 'react';
-import { UpgradeStep } from '../types/upgrade-step';
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { UpgradeStep, UpgradePath } from '../types/upgrade-step';
+import { StepProgress, StepStatus } from '../types/upgrade-session';
 import UpgradeStepComponent from './UpgradeStep';
+import PlanSummaryPanel from './PlanSummaryPanel';
+import StepListControls from './StepListControls';
+import StepTable from './StepTable';
+import { formatVersionRange } from '../lib/upgrade-path';
+import { getFrameworkName } from '../lib/frameworks';
+import { getBlockingSteps } from '../lib/step-dependencies';
+import { compareVersions } from '../lib/version';
+import {
+  NO_STEP_FILTERS,
+  STEP_GROUPINGS,
+  STEP_LIST_MODES,
+  StepFilters,
+  StepGrouping,
+  StepListMode,
+  filterStepIndexes,
+  getFilterOptions,
+  groupStepIndexes,
+  isFinished,
+} from '../lib/step-list';
 
 interface UpgradeStepsProps {
   steps: UpgradeStep[];
   framework: string;
-  fromVersion: number;
-  toVersion: number;
+  fromVersion: string;
+  toVersion: string;
   warning?: string;
+  path?: UpgradePath;
+  // Checklist progress of a shared session, keyed by the step's index in `steps`
+  progress?: Record<string, StepProgress>;
+  onProgressChange?: (stepIndex: number, progress: { status: StepStatus; note?: string }) => void;
+  actions?: React.ReactNode;
 }
 
+// Where the chosen view and grouping are kept in the browser
+const VIEW_STORAGE_KEY = 'jss-upgrade-guide:step-list-view';
+
+const WarningBanner: React.FC<{ title: string; message: string; coveredRanges?: string[] }> = ({
+  title,
+  message,
+  coveredRanges,
+}) => (
+  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+    <div className="flex">
+      <div className="flex-shrink-0">
+        <svg
+          className="h-5 w-5 text-yellow-400"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+            clipRule="evenodd"
+          />
+        </svg>
+      </div>
+      <div className="ml-3">
+        <h3 className="text-sm font-medium text-yellow-800">
+          {title}
+        </h3>
+        <div className="mt-2 text-sm text-yellow-700">
+          <p>{message}</p>
+          {coveredRanges && coveredRanges.length > 0 && (
+            <p className="mt-1">Steps are shown for {coveredRanges.join(', ')}.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
 const UpgradeSteps: React.FC<UpgradeStepsProps> = ({
   steps,
   framework,
   fromVersion,
   toVersion,
   warning,
+  path,
+  progress,
+  onProgressChange,
+  actions,
 }) => {
-  if (warning) {
+  const [mode, setMode] = useState<StepListMode>('cards');
+  const [grouping, setGrouping] = useState<StepGrouping>('none');
+  const [filters, setFilters] = useState<StepFilters>(NO_STEP_FILTERS);
+  // Steps by index in `steps`, sections by group key
+  const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+  // The stored view is only read once mounted, so the server-rendered list matches the first render
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(VIEW_STORAGE_KEY) || '{}');
+      if (STEP_LIST_MODES.includes(stored.mode)) setMode(stored.mode);
+      if (STEP_GROUPINGS.includes(stored.grouping)) setGrouping(stored.grouping);
+    } catch {
+      // A view that can't be read falls back to the defaults
+    }
+  }, []);
+
+  const saveView = (view: { mode: StepListMode; grouping: StepGrouping }) => {
+    setMode(view.mode);
+    setGrouping(view.grouping);
+    try {
+      localStorage.setItem(VIEW_STORAGE_KEY, JSON.stringify(view));
+    } catch {
+      // Storage can be unavailable, e.g. in private browsing; the view then lasts until reload
+    }
+  };
+
+  // A lower target version gets the steps that undo the upgrade
+  const isRollback = compareVersions(toVersion, fromVersion) < 0;
+  const heading = isRollback ? 'Rollback Steps' : 'Upgrade Steps';
+
+  // Without any steps the warning is all there is to show
+  if (warning && steps.length === 0) {
     return (
       <div className="max-w-4xl mx-auto">
-        <h2 className="text-xl font-semibold text-gray-900 mb-6">Upgrade Steps</h2>
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <svg
-                className="h-5 w-5 text-yellow-400"
-                viewBox="0 0 20 20"
-                fill="currentColor"
-              >
-                <path
-                  fillRule="evenodd"
-                  d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
-                  clipRule="evenodd"
-                />
-              </svg>
-            </div>
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-yellow-800">
-                No upgrade path available
-              </h3>
-              <div className="mt-2 text-sm text-yellow-700">
-                <p>{warning}</p>
-              </div>
-            </div>
-          </div>
-        </div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-6">{heading}</h2>
+        <WarningBanner title="No upgrade path available" message={warning} />
       </div>
     );
   }
 
+  // Steps ruled out by a project scan or the feature questionnaire are listed separately, not counted as work
+  const applicableSteps = steps.filter(step => step.applicable !== false);
+  const notApplicableSteps = steps.filter(step => step.applicable === false);
+  const irreversibleCount = applicableSteps.filter(step => step.irreversible).length;
+
+  // Done and skipped both count as finished checklist items
+  const finishedCount = progress
+    ? steps.filter((step, index) => ['done', 'skipped'].includes(progress[index]?.status)).length
+    : 0;
+  const progressPercentage = steps.length > 0 ? Math.round((finishedCount / steps.length) * 100) : 0;
+
+  // Steps are numbered as they are listed: applicable ones first
+  const stepNumbers = new Map([...applicableSteps, ...notApplicableSteps].map((step, index) => [steps.indexOf(step), index + 1]));
+  const blockingSteps = getBlockingSteps(steps);
+
+  // In a checklist a step stops being blocked once the steps it depends on are finished
+  const getBlockedBy = (stepIndex: number): number[] => blockingSteps[stepIndex]
+    .filter(index => !progress || !isFinished(progress[index]))
+    .map(index => stepNumbers.get(index)!)
+    .sort((a, b) => a - b);
+
+  const setStepExpanded = (stepIndex: number, expanded: boolean) => {
+    const updated = new Set(expandedSteps);
+    if (expanded) {
+      updated.add(stepIndex);
+    } else {
+      updated.delete(stepIndex);
+    }
+    setExpandedSteps(updated);
+  };
+
+  const renderStep = (stepIndex: number) => (
+    <div key={stepIndex} id={`step-${stepIndex}`}>
+      <UpgradeStepComponent
+        step={steps[stepIndex]}
+        stepNumber={stepNumbers.get(stepIndex)!}
+        blockedBy={getBlockedBy(stepIndex)}
+        progress={progress?.[stepIndex]}
+        onProgressChange={onProgressChange ? (value) => onProgressChange(stepIndex, value) : undefined}
+        isExpanded={expandedSteps.has(stepIndex)}
+        onExpandedChange={(expanded) => setStepExpanded(stepIndex, expanded)}
+      />
+    </div>
+  );
+
+  const renderStepList = (stepIndexes: number[]) => mode === 'table' ? (
+    <StepTable
+      rows={stepIndexes.map(stepIndex => ({
+        stepIndex,
+        stepNumber: stepNumbers.get(stepIndex)!,
+        step: steps[stepIndex],
+        blockedBy: getBlockedBy(stepIndex),
+      }))}
+      progress={progress}
+      onProgressChange={onProgressChange}
+      onOpenStep={handleOpenStep}
+    />
+  ) : (
+    <div className="space-y-3">
+      {stepIndexes.map(renderStep)}
+    </div>
+  );
+
+  // Filters apply to both lists, grouping only to the steps that are part of the work
+  const applicableIndexes = applicableSteps.map(step => steps.indexOf(step));
+  const notApplicableIndexes = notApplicableSteps.map(step => steps.indexOf(step));
+  const visibleIndexes = filterStepIndexes(steps, applicableIndexes, filters, progress);
+  const visibleNotApplicableIndexes = filterStepIndexes(steps, notApplicableIndexes, filters, progress);
+  const groups = groupStepIndexes(steps, visibleIndexes, grouping);
+  const filterOptions = getFilterOptions(steps);
+  const isFiltered = visibleIndexes.length + visibleNotApplicableIndexes.length < steps.length;
+
+  const toggleGroup = (key: string) => {
+    const updated = new Set(collapsedGroups);
+    if (updated.has(key)) {
+      updated.delete(key);
+    } else {
+      updated.add(key);
+    }
+    setCollapsedGroups(updated);
+  };
+
+  const handleExpandAll = () => {
+    setExpandedSteps(new Set([...visibleIndexes, ...visibleNotApplicableIndexes]));
+    setCollapsedGroups(new Set());
+  };
+
+  // Grouped lists fold up to their section headers
+  const handleCollapseAll = () => {
+    setExpandedSteps(new Set());
+    setCollapsedGroups(grouping === 'none' ? new Set() : new Set(groups.map(group => group.key)));
+  };
+
+  // A step picked in the table opens as a card, in its section
+  const handleOpenStep = (stepIndex: number) => {
+    saveView({ mode: 'cards', grouping });
+    setExpandedSteps(new Set([...expandedSteps, stepIndex]));
+    const group = groups.find(candidate => candidate.stepIndexes.includes(stepIndex));
+    if (group && collapsedGroups.has(group.key)) {
+      toggleGroup(group.key);
+    }
+    setTimeout(() => document.getElementById(`step-${stepIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
   if (steps.length === 0) {
     return (
       <div className="max-w-4xl mx-auto">
-        <h2 className="text-xl font-semibold text-gray-900 mb-6">Upgrade Steps</h2>
+        <h2 className="text-xl font-semibold text-gray-900 mb-6">{heading}</h2>
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
           <p className="text-gray-600">
-            No upgrade steps found for the selected version range.
+            No {isRollback ? 'rollback' : 'upgrade'} steps found for the selected version range.
           </p>
         </div>
       </div>
@@ -65,40 +247,162 @@ const UpgradeSteps: React.FC<UpgradeStepsProps> = ({
 
   return (
     <div className="max-w-4xl mx-auto">
-      <h2 className="text-xl font-semibold text-gray-900 mb-6">Upgrade Steps</h2>
+      <h2 className="text-xl font-semibold text-gray-900 mb-6">{heading}</h2>
       
+      {/* Partial Coverage */}
+      {warning && (
+        <div className="mb-6">
+          <WarningBanner
+            title="Upgrade path partially covered"
+            message={warning}
+            coveredRanges={path?.segments.map(formatVersionRange)}
+          />
+        </div>
+      )}
+
       {/* Summary */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
         <p className="text-sm text-blue-800">
-          <span className="font-medium">{steps.length}</span> upgrade steps found for upgrading{' '}
-          <span className="font-medium">{framework}</span> from version{' '}
+          <span className="font-medium">{applicableSteps.length}</span> {isRollback ? 'rollback' : 'upgrade'} steps found for {isRollback ? 'rolling back' : 'upgrading'}{' '}
+          <span className="font-medium">{getFrameworkName(framework)}</span> from version{' '}
           <span className="font-medium">{fromVersion}</span> to{' '}
           <span className="font-medium">{toVersion}</span>
+          {notApplicableSteps.length > 0 && (
+            <>
+              {' '}(<span className="font-medium">{notApplicableSteps.length}</span> not applicable to your project)
+            </>
+          )}
         </p>
+        {actions && <div className="mt-4">{actions}</div>}
+      </div>
+
+      {/* Steps Without a Safe Reverse */}
+      {isRollback && irreversibleCount > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-red-800">
+            <span className="font-medium">{irreversibleCount}</span> step{irreversibleCount === 1 ? '' : 's'} of the upgrade
+            {irreversibleCount === 1 ? ' has' : ' have'} no safe reverse and {irreversibleCount === 1 ? 'is' : 'are'} marked as irreversible.
+            Plan how to deal with {irreversibleCount === 1 ? 'it' : 'them'}, e.g. by restoring a backup, before rolling back production.
+          </p>
+        </div>
+      )}
+
+      {/* Size */}
+      <div className="mb-6">
+        <PlanSummaryPanel steps={steps} />
       </div>
 
+      {/* Checklist Progress */}
+      {progress && (
+        <div className="mb-6">
+          <div className="flex justify-between text-sm text-gray-700 mb-2">
+            <span className="font-medium">Progress</span>
+            <span>
+              {finishedCount} of {steps.length} steps finished ({progressPercentage}%)
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-2 bg-green-500 transition-all duration-300"
+              style={{ width: `${progressPercentage}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Steps List */}
       <div className="space-y-4">
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            Upgrade Instructions
+            {isRollback ? 'Rollback Instructions' : 'Upgrade Instructions'}
           </h3>
           <p className="text-sm text-gray-600">
-            Follow these steps in order to complete your upgrade. Click on each step to see detailed instructions.
+            {isRollback
+              ? 'Follow these steps in order to undo the upgrade, latest change first. Click on each step to see detailed instructions.'
+              : 'Follow these steps in order to complete your upgrade. Click on each step to see detailed instructions.'}
           </p>
         </div>
         
-        <div className="space-y-3">
-          {steps.map((step, index) => (
-            <UpgradeStepComponent 
-              key={index} 
-              step={step} 
-              stepNumber={index + 1}
-            />
-          ))}
-        </div>
+        <StepListControls
+          filters={filters}
+          onFiltersChange={setFilters}
+          stepTypes={filterOptions.stepTypes}
+          files={filterOptions.files}
+          showCompletion={!!progress}
+          grouping={grouping}
+          onGroupingChange={(value) => saveView({ mode, grouping: value })}
+          mode={mode}
+          onModeChange={(value) => saveView({ mode: value, grouping })}
+          onExpandAll={handleExpandAll}
+          onCollapseAll={handleCollapseAll}
+        />
+
+        {isFiltered && (
+          <p className="text-sm text-gray-600">
+            Showing {visibleIndexes.length + visibleNotApplicableIndexes.length} of {steps.length} steps.{' '}
+            <button type="button" className="font-medium text-blue-600 hover:text-blue-800" onClick={() => setFilters(NO_STEP_FILTERS)}>
+              Clear filters
+            </button>
+          </p>
+        )}
+
+        {grouping === 'none' ? (
+          visibleIndexes.length > 0 && renderStepList(visibleIndexes)
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const isCollapsed = collapsedGroups.has(group.key);
+              const finished = progress ? group.stepIndexes.filter(index => isFinished(progress[index])).length : 0;
+              return (
+                <section key={group.key}>
+                  <button
+                    type="button"
+                    aria-expanded={!isCollapsed}
+                    onClick={() => toggleGroup(group.key)}
+                    className="w-full flex items-center justify-between gap-4 px-4 py-2 bg-gray-100 rounded-md text-left hover:bg-gray-200"
+                  >
+                    <span className={`text-sm font-semibold text-gray-900 ${grouping === 'file' ? 'font-mono' : ''}`}>{group.label}</span>
+                    <span className="flex items-center gap-3 text-xs text-gray-600 whitespace-nowrap">
+                      {group.stepIndexes.length} step{group.stepIndexes.length === 1 ? '' : 's'}
+                      {progress && `, ${finished} finished`}
+                      <svg
+                        className={`h-4 w-4 text-gray-500 transform transition-transform duration-200 ${isCollapsed ? '' : 'rotate-180'}`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </span>
+                  </button>
+                  {!isCollapsed && <div className="mt-3">{renderStepList(group.stepIndexes)}</div>}
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {visibleIndexes.length === 0 && visibleNotApplicableIndexes.length === 0 && (
+          <p className="text-sm text-gray-600">No steps match the filters.</p>
+        )}
       </div>
 
+      {/* Not Applicable Steps */}
+      {visibleNotApplicableIndexes.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Not Applicable
+            </h3>
+            <p className="text-sm text-gray-600">
+              These steps change files that were not found in your project or only apply to features you don&apos;t use, so they can most likely be skipped.
+            </p>
+          </div>
+
+          {renderStepList(visibleNotApplicableIndexes)}
+        </div>
+      )}
+
       {/* Additional Info */}
       <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
         <div className="flex items-start space-x-3">
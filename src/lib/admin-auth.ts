@@ -0,0 +1,41 @@
+// Credential check for the authoring UI and API. Runs in the middleware, so it sticks to what the
+// edge runtime has.
+
+export const ADMIN_REALM = 'Step authoring';
+
+export const ADMIN_DISABLED_ERROR = 'Step authoring is closed, set ADMIN_TOKEN to open it';
+export const ADMIN_UNAUTHORIZED_ERROR = 'Sign in with the admin token to author steps';
+
+export function getAdminToken(): string | undefined {
+  return process.env.ADMIN_TOKEN || undefined;
+}
+
+// Browsers send the token as the password of a basic auth prompt, the user name is not checked;
+// scripts can send it as a bearer token
+export function isAdminAuthorized(authorization: string | null, token: string): boolean {
+  if (!authorization) return false;
+
+  const [scheme, credentials = ''] = authorization.split(' ');
+  if (scheme.toLowerCase() === 'bearer') {
+    return safeEqual(credentials, token);
+  }
+  if (scheme.toLowerCase() === 'basic') {
+    let decoded: string;
+    try {
+      decoded = atob(credentials);
+    } catch {
+      return false;
+    }
+    return safeEqual(decoded.slice(decoded.indexOf(':') + 1), token);
+  }
+  return false;
+}
+
+// Compares every character, so the time taken doesn't tell how much of the token was right
+function safeEqual(value: string, expected: string): boolean {
+  let difference = value.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= (value.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
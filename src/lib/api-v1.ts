@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import { ApiErrorBody, ApiErrorCode } from '../types/api';
+import { FrameworkDefinition } from '../types/framework';
+import { CONSOLIDATION_MODES, ConsolidationMode, ProjectFeatures } from '../types/upgrade-step';
+import { Version, compareVersions, tryParseVersion } from './version';
+import { FRAMEWORKS } from './frameworks';
+import { FEATURE_QUESTIONS, parseProjectFeatures } from './project-features';
+
+// Responses only change when the step data does; with the SQLite backend that can happen at runtime
+const CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600';
+
+// Stricter than the UI's version parsing: no "v" prefix, no build metadata
+const VERSION_PARAMETER_PATTERN = /^\d+\.\d+(\.\d+)?(-[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?$/;
+
+export const UPGRADE_PLAN_PARAMETERS = ['framework', 'from', 'to', 'consolidate', ...FEATURE_QUESTIONS.map(question => question.feature)];
+
+// The file view always works on the per-version steps, so it has no consolidate option
+export const FILE_VIEW_PARAMETERS = UPGRADE_PLAN_PARAMETERS.filter(name => name !== 'consolidate');
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly status: number = 400,
+    readonly parameter?: string
+  ) {
+    super(message);
+  }
+}
+
+export interface UpgradePlanQuery {
+  framework: FrameworkDefinition;
+  from: Version;
+  to: Version;
+  consolidate: ConsolidationMode;
+  features: ProjectFeatures;
+}
+
+export function cachedJson(data: unknown): NextResponse {
+  return NextResponse.json(data, { headers: { 'Cache-Control': CACHE_CONTROL } });
+}
+
+// Structured error response; anything that isn't an ApiError is logged and reported as internal_error
+export function apiErrorResponse(error: unknown, context: string): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message, ...(error.parameter ? { parameter: error.parameter } : {}) } },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${context} API:`, error);
+  return NextResponse.json(
+    { error: { code: 'internal_error', message: 'Internal server error' } },
+    { status: 500 }
+  );
+}
+
+// Unknown parameters are rejected instead of ignored, a typo shouldn't silently change the result
+export function assertKnownParameters(searchParams: URLSearchParams, allowed: string[]): void {
+  for (const name of searchParams.keys()) {
+    if (!allowed.includes(name)) {
+      const expected = allowed.length > 0 ? `expected one of: ${allowed.join(', ')}` : 'this endpoint takes no query parameters';
+      throw new ApiError('unknown_parameter', `Unknown parameter "${name}", ${expected}`, 400, name);
+    }
+  }
+}
+
+// Only registry ids are accepted, display names are a UI convenience. An unknown id in the path is a 404.
+export function parseFrameworkId(id: string, parameter: string = 'framework', status: number = 400): FrameworkDefinition {
+  const framework = FRAMEWORKS.find(definition => definition.id === id);
+  if (!framework) {
+    throw new ApiError('unknown_framework', `Unknown framework "${id}", expected one of: ${FRAMEWORKS.map(definition => definition.id).join(', ')}`, status, parameter);
+  }
+  return framework;
+}
+
+export function parseUpgradePlanQuery(searchParams: URLSearchParams, allowed: string[] = UPGRADE_PLAN_PARAMETERS): UpgradePlanQuery {
+  assertKnownParameters(searchParams, allowed);
+
+  const framework = parseFrameworkId(getRequiredParameter(searchParams, 'framework'));
+  const from = parseVersionParameter(searchParams, 'from');
+  const to = parseVersionParameter(searchParams, 'to');
+  // A lower "to" asks for a rollback plan
+  if (compareVersions(from, to) === 0) {
+    throw new ApiError('invalid_version_range', '"from" and "to" must be different versions', 400, 'from');
+  }
+
+  const consolidate = searchParams.get('consolidate') || 'full';
+  if (!CONSOLIDATION_MODES.includes(consolidate as ConsolidationMode)) {
+    throw new ApiError('invalid_parameter', `consolidate must be one of: ${CONSOLIDATION_MODES.join(', ')}`, 400, 'consolidate');
+  }
+
+  const answers = Object.fromEntries(FEATURE_QUESTIONS
+    .filter(({ feature }) => searchParams.has(feature))
+    .map(({ feature }) => [feature, searchParams.get(feature)]));
+  const features = parseProjectFeatures(answers);
+  if (!features) {
+    const invalid = FEATURE_QUESTIONS.find(({ feature }) => feature in answers && !parseProjectFeatures({ [feature]: answers[feature] }));
+    throw new ApiError(
+      'invalid_parameter',
+      `${invalid?.feature} must be one of: ${invalid?.options.map(option => String(option.value)).join(', ')}`,
+      400,
+      invalid?.feature
+    );
+  }
+
+  return { framework, from, to, consolidate: consolidate as ConsolidationMode, features };
+}
+
+export function getRequiredParameter(searchParams: URLSearchParams, name: string): string {
+  const value = searchParams.get(name);
+  if (!value) {
+    throw new ApiError('missing_parameter', `Missing required parameter "${name}"`, 400, name);
+  }
+  return value;
+}
+
+function parseVersionParameter(searchParams: URLSearchParams, name: string): Version {
+  const value = getRequiredParameter(searchParams, name);
+  const version = VERSION_PARAMETER_PATTERN.test(value) ? tryParseVersion(value) : null;
+  if (!version) {
+    throw new ApiError('invalid_parameter', `${name} must be a version like 22.4 or 22.4.2`, 400, name);
+  }
+  return version;
+}
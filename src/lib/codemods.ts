@@ -0,0 +1,345 @@
+import ts from 'typescript';
+import { createTwoFilesPatch } from 'diff';
+import { FormattingOptions, JSONPath, ParseError, applyEdits, modify, parse as parseJsonc } from 'jsonc-parser';
+import { UpgradeStep } from '../types/upgrade-step';
+import { ProjectSnapshot } from '../types/project';
+import { compareVersions, getRangeMinimum } from './version';
+import {
+  EnvVarOperation,
+  FileDiff,
+  ImportUpdateOperation,
+  JsonPatch,
+  JsonPatchOperation,
+  PackageVersionOperation,
+  RegexReplaceOperation,
+  UpgradeOperation,
+} from '../types/codemod';
+
+type Files = Record<string, string | undefined>;
+
+// Apply each step's operations in plan order and attach the resulting diff to the step
+export function previewUpgradeOperations(snapshot: ProjectSnapshot, steps: UpgradeStep[]): UpgradeStep[] {
+  const workingFiles: Files = { ...snapshot.files };
+
+  return steps.map(step => {
+    if (!step.operations || step.operations.length === 0) {
+      return step;
+    }
+
+    const before: Files = { ...workingFiles };
+    const messages = new Set<string>();
+
+    step.operations.forEach(operation => {
+      try {
+        applyOperation(workingFiles, operation);
+      } catch (error) {
+        messages.add(error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    const diffs: FileDiff[] = [];
+    getOperationFiles(step.operations).forEach(file => {
+      if (before[file] !== workingFiles[file]) {
+        diffs.push({ file, diff: createUnifiedDiff(file, before[file], workingFiles[file]) });
+      }
+    });
+
+    return { ...step, preview: { diffs, messages: Array.from(messages) } };
+  });
+}
+
+export function applyOperation(files: Files, operation: UpgradeOperation): void {
+  switch (operation.type) {
+    case 'package-version':
+      return applyPackageVersion(files, operation);
+    case 'env-var':
+      return applyEnvVar(files, operation);
+    case 'json-patch':
+      return applyJsonPatchOperation(files, operation);
+    case 'regex-replace':
+      return applyRegexReplace(files, operation);
+    case 'ts-import-update':
+      return applyImportUpdate(files, operation);
+  }
+}
+
+export function getOperationFile(operation: UpgradeOperation): string {
+  switch (operation.type) {
+    case 'package-version':
+      return 'package.json';
+    case 'env-var':
+      return operation.file || '.env';
+    default:
+      return operation.file;
+  }
+}
+
+function getOperationFiles(operations: UpgradeOperation[]): string[] {
+  return Array.from(new Set(operations.map(getOperationFile)));
+}
+
+function createUnifiedDiff(file: string, before: string | undefined, after: string | undefined): string {
+  return createTwoFilesPatch(
+    before === undefined ? '/dev/null' : `a/${file}`,
+    after === undefined ? '/dev/null' : `b/${file}`,
+    before || '',
+    after || ''
+  );
+}
+
+function readFile(files: Files, file: string): string {
+  const content = files[file];
+  if (content === undefined) {
+    throw new Error(`${file} was not found in the project`);
+  }
+  return content;
+}
+
+function applyPackageVersion(files: Files, operation: PackageVersionOperation): void {
+  const content = readFile(files, 'package.json');
+  const manifest = JSON.parse(content);
+
+  let updated = false;
+  let result = content;
+  ['dependencies', 'devDependencies', 'peerDependencies'].forEach(section => {
+    const currentVersion = manifest[section]?.[operation.package];
+    if (typeof currentVersion === 'string') {
+      updated = true;
+      // Consolidated plans can carry bumps for earlier hops, never move a package backwards
+      if (isSameOrNewerVersion(currentVersion, operation.version)) return;
+
+      // Keep the range style the project already uses
+      const prefix = currentVersion.match(/^[\^~]/)?.[0] || '';
+      result = editJson(result, [section, operation.package], `${prefix}${operation.version}`);
+    }
+  });
+
+  if (!updated) {
+    throw new Error(`${operation.package} is not a dependency in package.json`);
+  }
+
+  files['package.json'] = result;
+}
+
+function isSameOrNewerVersion(currentRange: string, version: string): boolean {
+  const current = getRangeMinimum(currentRange);
+  return !!current && compareVersions(current, version) >= 0;
+}
+
+function applyEnvVar(files: Files, operation: EnvVarOperation): void {
+  const file = operation.file || '.env';
+  const content = files[file] || '';
+  const lines = content.split('\n');
+  const findVariable = (name: string) => lines.findIndex(line => new RegExp(`^\\s*${escapeRegExp(name)}\\s*=`).test(line));
+
+  if (findVariable(operation.name) !== -1) {
+    return;
+  }
+
+  const renameIndex = operation.renameFrom ? findVariable(operation.renameFrom) : -1;
+  if (renameIndex !== -1) {
+    lines[renameIndex] = lines[renameIndex].replace(operation.renameFrom!, operation.name);
+    files[file] = lines.join('\n');
+    return;
+  }
+
+  if (operation.value === undefined) {
+    throw new Error(`${operation.renameFrom || operation.name} was not found in ${file}`);
+  }
+
+  const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+  files[file] = `${content}${separator}${operation.name}=${operation.value}\n`;
+}
+
+// Files are edited in place, so comments, key order and formatting outside the patched values stay
+// as they were and the preview diff only shows the change
+function applyJsonPatchOperation(files: Files, operation: JsonPatchOperation): void {
+  const content = readFile(files, operation.file);
+  files[operation.file] = operation.patch.reduce((text, patch) => applyJsonPatch(text, patch, operation.file), content);
+}
+
+function applyJsonPatch(content: string, patch: JsonPatch, file: string): string {
+  const segments = patch.path.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const key = segments.pop();
+  if (key === undefined) {
+    throw new Error(`Invalid JSON pointer "${patch.path}" for ${file}`);
+  }
+
+  const errors: ParseError[] = [];
+  const document = parseJsonc(content, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new Error(`${file} is not valid JSON`);
+  }
+
+  const parents = resolveJsonParents(document, segments, patch.op === 'add');
+  if (parents.length === 0) {
+    throw new Error(`${patch.path} was not found in ${file}`);
+  }
+
+  // Parents are edited one after the other, each edit is made against the text the previous one left
+  return parents.reduce((text, { path, node }) => {
+    if (Array.isArray(node)) {
+      const index = key === '-' ? node.length : Number(key);
+      return editJson(text, [...path, index], patch.op === 'remove' ? undefined : patch.value, patch.op === 'add');
+    }
+    if (patch.op !== 'add' && !(node && key in node)) {
+      throw new Error(`${patch.path} was not found in ${file}`);
+    }
+    return editJson(text, [...path, key], patch.op === 'remove' ? undefined : patch.value);
+  }, content);
+}
+
+// Walk the pointer segments; "*" fans out over every key, "add" goes on through missing objects,
+// which the edit then creates
+function resolveJsonParents(
+  document: unknown,
+  segments: string[],
+  createMissing: boolean
+): { path: JSONPath; node: Record<string, unknown> | undefined }[] {
+  let current: { path: JSONPath; node: unknown }[] = [{ path: [], node: document }];
+
+  segments.forEach(segment => {
+    const next: { path: JSONPath; node: unknown }[] = [];
+    current.forEach(({ path, node }) => {
+      if (node === undefined && createMissing && segment !== '*') {
+        next.push({ path: [...path, segment], node: undefined });
+        return;
+      }
+      if (!node || typeof node !== 'object') return;
+      const container = node as Record<string, unknown>;
+      const toPathSegment = (name: string) => (Array.isArray(container) ? Number(name) : name);
+
+      if (segment === '*') {
+        next.push(...Object.keys(container).map(name => ({ path: [...path, toPathSegment(name)], node: container[name] })));
+        return;
+      }
+      if (container[segment] !== undefined || (createMissing && !Array.isArray(container))) {
+        next.push({ path: [...path, toPathSegment(segment)], node: container[segment] });
+      }
+    });
+    current = next;
+  });
+
+  return current
+    .filter(({ node }) => node === undefined ? createMissing : !!node && typeof node === 'object')
+    .map(({ path, node }) => ({ path, node: node as Record<string, unknown> | undefined }));
+}
+
+// Set, insert or (with undefined) remove one value, indented like the rest of the file
+function editJson(content: string, path: JSONPath, value: unknown, isArrayInsertion = false): string {
+  const indent = content.match(/\n([ \t]+)"/)?.[1] || '  ';
+  const formattingOptions: FormattingOptions = {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol: content.includes('\r\n') ? '\r\n' : '\n',
+  };
+  return applyEdits(content, modify(content, path, value, { formattingOptions, isArrayInsertion }));
+}
+
+function applyRegexReplace(files: Files, operation: RegexReplaceOperation): void {
+  const content = readFile(files, operation.file);
+  const pattern = new RegExp(operation.pattern, operation.flags ?? 'g');
+
+  if (!pattern.test(content)) {
+    throw new Error(`No match for /${operation.pattern}/ in ${operation.file}`);
+  }
+  pattern.lastIndex = 0;
+
+  files[operation.file] = content.replace(pattern, operation.replacement);
+}
+
+function applyImportUpdate(files: Files, operation: ImportUpdateOperation): void {
+  const content = readFile(files, operation.file);
+  const sourceFile = ts.createSourceFile(operation.file, content, ts.ScriptTarget.Latest, true);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  const declaration = sourceFile.statements.find((statement): statement is ts.ImportDeclaration =>
+    ts.isImportDeclaration(statement)
+    && ts.isStringLiteral(statement.moduleSpecifier)
+    && statement.moduleSpecifier.text === operation.module
+    && getNamedImports(statement).some(element => element.name.text === operation.name || element.propertyName?.text === operation.name)
+  );
+
+  if (!declaration) {
+    throw new Error(`${operation.name} is not imported from ${operation.module} in ${operation.file}`);
+  }
+
+  const namedImports = getNamedImports(declaration);
+  const element = namedImports.find(item => (item.propertyName || item.name).text === operation.name)!;
+  const isAliased = !!element.propertyName;
+  const localName = element.name.text;
+  const newImportedName = operation.newName || operation.name;
+  const newLocalName = isAliased ? localName : newImportedName;
+  const specifierText = isAliased ? `${newImportedName} as ${localName}` : newImportedName;
+
+  if (operation.newModule && operation.newModule !== operation.module) {
+    const quote = content[declaration.moduleSpecifier.getStart(sourceFile)];
+    const newImport = `import { ${specifierText} } from ${quote}${operation.newModule}${quote};`;
+
+    if (namedImports.length === 1 && !declaration.importClause?.name) {
+      edits.push({ start: declaration.getStart(sourceFile), end: declaration.getEnd(), text: newImport });
+    } else {
+      // Drop the specifier (and its trailing comma) from the existing import and add a new one below it
+      const importClause = declaration.importClause!;
+      const elements = importClause.namedBindings as ts.NamedImports;
+      const index = elements.elements.indexOf(element);
+      if (elements.elements.length === 1) {
+        // Only the default import is left: `import a, { b } from` becomes `import a from`
+        edits.push({ start: importClause.name!.getEnd(), end: elements.getEnd(), text: '' });
+      } else if (index < elements.elements.length - 1) {
+        edits.push({ start: element.getStart(sourceFile), end: elements.elements[index + 1].getStart(sourceFile), text: '' });
+      } else {
+        edits.push({ start: elements.elements[index - 1].getEnd(), end: element.getEnd(), text: '' });
+      }
+      edits.push({ start: declaration.getEnd(), end: declaration.getEnd(), text: `\n${newImport}` });
+    }
+  } else {
+    edits.push({ start: element.getStart(sourceFile), end: element.getEnd(), text: specifierText });
+  }
+
+  // Update references to the local binding when it was renamed
+  if (newLocalName !== localName) {
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && node.text === localName && isReference(node) && !isWithin(node, declaration)) {
+        edits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: newLocalName });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  files[operation.file] = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+}
+
+function getNamedImports(declaration: ts.ImportDeclaration): ts.ImportSpecifier[] {
+  const bindings = declaration.importClause?.namedBindings;
+  return bindings && ts.isNamedImports(bindings) ? Array.from(bindings.elements) : [];
+}
+
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isPropertyAssignment(parent) && parent.name === node) return false;
+  if (ts.isPropertySignature(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent)) {
+    return parent.name !== node;
+  }
+  return true;
+}
+
+function isWithin(node: ts.Node, container: ts.Node): boolean {
+  return node.pos >= container.pos && node.end <= container.end;
+}
+
+// tsconfig.json and angular.json commonly contain comments and trailing commas. Strings are matched
+// first in both passes, so a "//" in a URL or a ", }" in a value is left alone.
+export function stripJsonComments(content: string): string {
+  return content
+    .replace(/("(?:[^"\\]|\\.)*")|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (match, quoted) => quoted || '')
+    .replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (match, quoted, closing) => quoted || closing);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
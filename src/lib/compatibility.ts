@@ -0,0 +1,139 @@
+import { CompatibilityCheck, CompatibilityEntry, DependencyRequirement } from '../types/compatibility';
+import { FrameworkDefinition } from '../types/framework';
+import { PackageVersionOperation } from '../types/codemod';
+import { Framework, UpgradeStep } from '../types/upgrade-step';
+import { Version, compareVersions, formatFullVersion, formatVersion, getRangeMinimum, satisfiesRange, tryParseVersion } from './version';
+import { getFramework, getMigrationSource } from './frameworks';
+import compatibility from '../data/compatibility.json';
+
+// Keyed by framework id, entries oldest first
+const COMPATIBILITY = compatibility as unknown as Record<Framework, CompatibilityEntry[]>;
+
+export function getCompatibility(framework: Framework): CompatibilityEntry[] {
+  return COMPATIBILITY[framework] || [];
+}
+
+// Entry of the release line a version belongs to, e.g. 22.4 for 22.4.2. The starting point of a
+// migration has the entry of the release it starts from.
+export function getCompatibilityEntry(framework: Framework, version: Version | string): CompatibilityEntry | undefined {
+  const source = getMigrationSource(getFramework(framework), version);
+  if (source) {
+    return getCompatibilityEntry(source.framework, source.version);
+  }
+
+  const parsed = typeof version === 'string' ? tryParseVersion(version) : version;
+  if (!parsed) return undefined;
+
+  return getCompatibility(framework).find(entry => {
+    const entryVersion = tryParseVersion(entry.version);
+    return entryVersion?.major === parsed.major && entryVersion.minor === parsed.minor;
+  });
+}
+
+// Packages the compatibility data pins for a release, none when there is no data for it
+export function getRequiredPackageNames(framework: Framework, version: Version | string): string[] {
+  return Object.keys(getCompatibilityEntry(framework, version)?.packages || {});
+}
+
+// Every requirement of the target release checked against a package.json. Returns null when there
+// is no compatibility data for the target; throws when the package.json can't be parsed.
+export function checkPackageJson(packageJson: string, framework: FrameworkDefinition, toVersion: Version): CompatibilityCheck | null {
+  const entry = getCompatibilityEntry(framework.id, toVersion);
+  if (!entry) return null;
+
+  const manifest = JSON.parse(packageJson) as {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    engines?: Record<string, string>;
+  };
+  const dependencies = { ...manifest.devDependencies, ...manifest.dependencies };
+  const requirements: DependencyRequirement[] = [];
+
+  if (entry.node) {
+    requirements.push(checkRequirement('node', 'engine', manifest.engines?.node, entry.node));
+  }
+  getTargetPackages(framework, entry, toVersion).forEach(([name, range]) => {
+    requirements.push(checkRequirement(name, 'package', dependencies[name], range));
+  });
+
+  return { framework: framework.id, toVersion: formatVersion(toVersion), requirements };
+}
+
+// The package-update step of a plan, built from the requirements of the target release instead of
+// the text of the per-version steps. Only what changes since the current release is listed. A lower
+// target gives the downgrade of a rollback plan.
+export function buildPackageUpdateStep(
+  framework: FrameworkDefinition,
+  fromVersion: Version,
+  toVersion: Version
+): Pick<UpgradeStep, 'instruction' | 'detailedDescription' | 'operations'> | null {
+  const entry = getCompatibilityEntry(framework.id, toVersion);
+  if (!entry) return null;
+
+  const fromEntry = getCompatibilityEntry(framework.id, fromVersion);
+  const target = formatVersion(toVersion);
+  const downgrade = compareVersions(toVersion, fromVersion) < 0;
+  const packages = getTargetPackages(framework, entry, toVersion)
+    .filter(([name, range]) => name === framework.packageName || fromEntry?.packages[name] !== range)
+    // The installed newer release still meets a caret range, a downgrade has to stay on the target's minor
+    .map(([name, range]): [string, string] => [name, downgrade ? range.replace(/^\^/, '~') : range]);
+  const peers = packages.filter(([name]) => name !== framework.packageName);
+
+  const lines = [`${downgrade ? 'Install' : 'Update'} the packages JSS ${target} requires:`, ''];
+  if (framework.packageManager === 'nuget') {
+    lines.push('```bash', ...packages.map(([name, version]) => `dotnet add package ${name} --version ${version}`), '```');
+  } else {
+    const specs = packages.map(([name, range]) => `${name}@${range}`).join(' ');
+    lines.push('```bash', `npm install ${specs}`, '```', '', 'Or if using yarn:', '```bash', `yarn add ${specs}`, '```');
+  }
+  // An older release never needs a newer Node.js than the one already in use
+  if (entry.node && entry.node !== fromEntry?.node && !downgrade) {
+    lines.push('', `JSS ${target} requires Node.js ${entry.node}; update your build agents and hosting as well as the \`engines\` field.`);
+  }
+  if (entry.dotnet && entry.dotnet !== fromEntry?.dotnet) {
+    lines.push('', `JSS ${target} targets ${entry.dotnet}; update the \`TargetFramework\` of the rendering host project.`);
+  }
+  lines.push('', `Supported Sitecore versions: ${formatSitecoreSupport(entry)}.`);
+
+  // Codemods can only bump what package.json declares with a version, and never move it back
+  const operations: PackageVersionOperation[] = framework.packageManager === 'npm' && !downgrade
+    ? packages.flatMap(([name, range]) => {
+      const minimum = getRangeMinimum(range);
+      return minimum ? [{ type: 'package-version' as const, package: name, version: formatFullVersion(minimum) }] : [];
+    })
+    : [];
+
+  const verb = downgrade ? 'Downgrade' : 'Update';
+  return {
+    instruction: peers.length > 0
+      ? `${verb} the ${framework.packageName} package and its dependencies to ${target}`
+      : `${verb} the ${framework.packageName} package to ${target}`,
+    detailedDescription: lines.join('\n'),
+    operations: operations.length > 0 ? operations : undefined,
+  };
+}
+
+export function formatSitecoreSupport(entry: CompatibilityEntry): string {
+  const support = entry.sitecore.xp.map(version => `XP / XM ${version}`);
+  if (entry.sitecore.xmCloud) {
+    support.push('XM Cloud');
+  }
+  return support.join(', ') || 'none';
+}
+
+// The data names release lines; a patch target like 22.4.2 needs at least that patch of the framework package
+function getTargetPackages(framework: FrameworkDefinition, entry: CompatibilityEntry, toVersion: Version): [string, string][] {
+  return Object.entries(entry.packages).map(([name, range]) => {
+    if (name !== framework.packageName || (toVersion.patch === 0 && toVersion.prerelease.length === 0)) return [name, range];
+    const version = formatFullVersion(toVersion);
+    return [name, framework.packageManager === 'nuget' ? version : `^${version}`];
+  });
+}
+
+function checkRequirement(name: string, kind: DependencyRequirement['kind'], current: string | undefined, required: string): DependencyRequirement {
+  if (!current) return { name, kind, required, status: 'missing' };
+
+  const minimum = getRangeMinimum(current);
+  if (!minimum) return { name, kind, current, required, status: 'unknown' };
+  return { name, kind, current, required, status: satisfiesRange(minimum, required) ? 'ok' : 'update' };
+}
@@ -0,0 +1,207 @@
+import TurndownService from 'turndown';
+import { Token, Tokens } from 'marked';
+import { UpgradeStep, Framework } from '../types/upgrade-step';
+import { parseMarkdown } from './markdown';
+import { FRAMEWORKS, getFramework, getPlanVersions } from './frameworks';
+import { compareVersions, formatVersion, isValidVersion, maxVersion, minVersion } from './version';
+import { isRelativeFilePath } from './step-linter';
+
+export interface DocImportOptions {
+  // Inferred from the page when not given
+  framework?: Framework;
+  from?: string;
+  to?: string;
+  // Ids taken in the framework's dataset, the imported steps' ids don't reuse them
+  getExistingIds?: (framework: Framework) => string[];
+}
+
+export interface ImportedGuide {
+  title: string;
+  framework?: Framework;
+  from?: string;
+  to?: string;
+  steps: UpgradeStep[];
+  warnings: string[];
+}
+
+// Sections of an upgrade guide that are not upgrade steps
+const IGNORED_SECTIONS = /^(before you begin|prerequisites|next steps|see also|related|in this (article|topic)|overview|introduction)\b/i;
+
+// Step types inferred from section headings, first match wins
+const STEP_TYPE_RULES: { pattern: RegExp; stepType: string }[] = [
+  { pattern: /\b(test|verify|validate|check)/i, stepType: 'testing' },
+  { pattern: /\b(deploy|hosting|vercel|netlify|pipeline)/i, stepType: 'deployment' },
+  { pattern: /\bdependenc/i, stepType: 'dependencies' },
+  { pattern: /\b(package|npm|yarn|nuget|@sitecore)/i, stepType: 'package-update' },
+  { pattern: /\b(config|environment|\.env|settings?|variables?)\b/i, stepType: 'configuration' },
+];
+
+// File names worth pointing a step at, with or without a folder
+const FILE_PATH_PATTERN = /^(?:[\w@.-]+\/)*(?:[\w@-][\w@.-]*\.(?:tsx?|jsx?|mjs|cjs|json|ya?ml|xml|cs|csproj|config|graphql|s?css|html)|\.env(?:\.[\w-]+)?)$/;
+
+const VERSION_IN_TEXT_PATTERN = /\b\d+\.\d+(?:\.\d+)?\b/g;
+
+// Parse a saved upgrade guide page into upgrade steps, one step per top-level section
+export function importUpgradeGuide(source: string, fileName: string, options: DocImportOptions = {}): ImportedGuide {
+  const markdown = /\.html?$/i.test(fileName) ? htmlToMarkdown(source) : source;
+  const tokens = parseMarkdown(markdown);
+  const warnings: string[] = [];
+
+  const titleToken = tokens.find((token): token is Tokens.Heading => token.type === 'heading' && token.depth === 1);
+  const title = titleToken ? toPlainText(titleToken.text) : getHtmlTitle(source) || fileName;
+
+  const framework = options.framework ? getFramework(options.framework)?.id : inferFramework(markdown, title);
+  if (!framework) {
+    warnings.push(options.framework
+      ? `Unknown framework: ${options.framework}`
+      : 'Could not tell which framework the page is about, pass --framework');
+  }
+
+  const { from, to } = inferVersions(title, markdown, framework, options);
+  if (!from || !to) {
+    warnings.push('Could not tell which versions the page upgrades between, pass --from and --to');
+  }
+
+  const steps: UpgradeStep[] = [];
+  splitSections(tokens.filter(token => token !== titleToken)).forEach(({ heading, body }) => {
+    const instruction = toPlainText(heading.text).replace(/[.:]$/, '');
+    if (IGNORED_SECTIONS.test(instruction)) return;
+
+    const detailedDescription = body.map(token => token.raw).join('').trim();
+    if (!detailedDescription) {
+      warnings.push(`Section "${instruction}" has no content and was skipped`);
+      return;
+    }
+
+    const step: UpgradeStep = { instruction, detailedDescription, from: from || '', to: to || '', stepType: inferStepType(instruction) };
+    const affectedFile = inferAffectedFile(body);
+    if (affectedFile) step.affectedFile = affectedFile;
+    steps.push(step);
+  });
+
+  if (steps.length === 0) {
+    warnings.push('No sections found, upgrade steps are read from the headings below the page title');
+  }
+
+  const takenIds = new Set(framework ? options.getExistingIds?.(framework) : []);
+  const identifiedSteps = framework && to
+    ? steps.map(step => ({ id: getImportedStepId(framework, to, step.instruction, takenIds), ...step }))
+    : steps;
+
+  return { title, framework, from, to, steps: identifiedSteps, warnings };
+}
+
+// Saved pages include the site chrome, only the article is converted
+function htmlToMarkdown(html: string): string {
+  const content = html.match(/<main[\s>][\s\S]*<\/main>/i)?.[0]
+    || html.match(/<article[\s>][\s\S]*<\/article>/i)?.[0]
+    || html.match(/<body[\s>][\s\S]*<\/body>/i)?.[0]
+    || html;
+
+  const turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+  turndown.remove(['script', 'style', 'nav', 'header', 'footer', 'aside', 'button', 'form']);
+  return turndown.turndown(content);
+}
+
+function getHtmlTitle(source: string): string | undefined {
+  const title = source.match(/<title>([\s\S]*?)<\/title>/i)?.[1];
+  return title ? title.replace(/\s+/g, ' ').trim() : undefined;
+}
+
+// Split on the highest heading level below the title, deeper headings stay in their section
+function splitSections(tokens: Token[]): { heading: Tokens.Heading; body: Token[] }[] {
+  const headings = tokens.filter((token): token is Tokens.Heading => token.type === 'heading');
+  if (headings.length === 0) return [];
+
+  const depth = Math.min(...headings.map(heading => heading.depth));
+  const sections: { heading: Tokens.Heading; body: Token[] }[] = [];
+  tokens.forEach(token => {
+    if (token.type === 'heading' && (token as Tokens.Heading).depth === depth) {
+      sections.push({ heading: token as Tokens.Heading, body: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body.push(token);
+    }
+  });
+  return sections;
+}
+
+// The registry package mentioned most often, or a framework named in the title
+function inferFramework(markdown: string, title: string): Framework | undefined {
+  const mentions = FRAMEWORKS
+    .map(framework => ({ id: framework.id, count: markdown.split(framework.packageName).length - 1 }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+  if (mentions.length > 0) return mentions[0].id;
+
+  return FRAMEWORKS.find(framework => title.toLowerCase().includes(framework.name.toLowerCase()))?.id;
+}
+
+// "Upgrading JSS 22.8 Next.js apps to version 22.9" names both versions; a title with only the
+// target version upgrades from the registry version before it
+function inferVersions(title: string, markdown: string, framework: Framework | undefined, options: DocImportOptions): { from?: string; to?: string } {
+  const titleVersions = (title.match(VERSION_IN_TEXT_PATTERN) || []).filter(isValidVersion);
+  const versions = titleVersions.length > 0
+    ? titleVersions
+    : (markdown.slice(0, 500).match(VERSION_IN_TEXT_PATTERN) || []).filter(isValidVersion);
+
+  const to = options.to || (versions.length > 0 ? formatVersion(maxVersion(versions)!) : undefined);
+  let from = options.from || (versions.length > 1 ? formatVersion(minVersion(versions)!) : undefined);
+
+  if (!from && to && framework) {
+    const previous = getPlanVersions(getFramework(framework)).filter(version => compareVersions(version, to) < 0);
+    from = previous.length > 0 ? maxVersion(previous) : undefined;
+  }
+
+  return { from, to };
+}
+
+// "<framework>-<to>-<instruction words>", e.g. nextjs-22.9-update-the-middleware, numbered when the
+// id is taken
+function getImportedStepId(framework: Framework, to: string, instruction: string, takenIds: Set<string>): string {
+  const words = instruction.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const base = `${framework}-${formatVersion(to)}-${words.slice(0, 8).join('-') || 'step'}`;
+  let id = base;
+  for (let suffix = 2; takenIds.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  takenIds.add(id);
+  return id;
+}
+
+function inferStepType(heading: string): string {
+  return STEP_TYPE_RULES.find(({ pattern }) => pattern.test(heading))?.stepType || 'code-update';
+}
+
+// First file named in a code block's header comment, then in inline code, then a path in the text
+function inferAffectedFile(tokens: Token[]): string | undefined {
+  const codeHeaders: string[] = [];
+  const codeSpans: string[] = [];
+  const textPaths: string[] = [];
+
+  const visit = (token: Token) => {
+    if (token.type === 'code') {
+      const header = (token as Tokens.Code).text.split('\n')[0].match(/^\s*(?:\/\/|#|<!--|\/\*)\s*(?:file:\s*)?(\S+)/i);
+      if (header) codeHeaders.push(header[1]);
+    } else if (token.type === 'codespan') {
+      codeSpans.push((token as Tokens.Codespan).text);
+    } else if (token.type === 'text' && !('tokens' in token && token.tokens)) {
+      textPaths.push(...((token as Tokens.Text).text.match(/\S+\/\S+/g) || []).map(word => word.replace(/[.,:;)]+$/, '')));
+    }
+    const children = 'tokens' in token && Array.isArray(token.tokens) ? token.tokens : [];
+    const items = token.type === 'list' ? (token as Tokens.List).items : [];
+    [...children, ...items].forEach(visit);
+  };
+  tokens.forEach(visit);
+
+  return [...codeHeaders, ...codeSpans, ...textPaths]
+    .map(candidate => candidate.replace(/^\.\//, ''))
+    .find(candidate => FILE_PATH_PATTERN.test(candidate) && isRelativeFilePath(candidate));
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,65 @@
+import { Tokens } from 'marked';
+import { CodeSnippet, FileChange, TouchedFile } from '../types/file-changes';
+import { STEP_SEVERITIES, UpgradeStep, VersionRange } from '../types/upgrade-step';
+import { parseMarkdown } from './markdown';
+import { matchesFilePattern } from './project-scanner';
+import { compareVersions } from './version';
+
+// Files the steps touch, by path. Expects per-version steps, i.e. a plan built with consolidate=none.
+export function listTouchedFiles(steps: UpgradeStep[]): TouchedFile[] {
+  const stepsByFile = new Map<string, UpgradeStep[]>();
+  steps.forEach(step => {
+    if (!step.affectedFile || step.applicable === false) return;
+    if (!stepsByFile.has(step.affectedFile)) {
+      stepsByFile.set(step.affectedFile, []);
+    }
+    stepsByFile.get(step.affectedFile)!.push(step);
+  });
+
+  return Array.from(stepsByFile, ([file, fileSteps]) => {
+    const hops = new Map<string, VersionRange>();
+    sortChronologically(fileSteps).forEach(({ from, to }) => hops.set(`${from}-${to}`, { from, to }));
+    return {
+      file,
+      changes: fileSteps.length,
+      hops: Array.from(hops.values()),
+      severity: STEP_SEVERITIES.find(severity => fileSteps.some(step => step.severity === severity)),
+      effortHours: fileSteps.reduce((total, step) => total + (step.effortHours || 0), 0),
+    };
+  }).sort((a, b) => a.file.localeCompare(b.file));
+}
+
+// Every change to a file, oldest hop first. The file may be a project path, which matches steps
+// whose affectedFile is a pattern like src/**/*.tsx, or a pattern, which matches the steps' paths.
+export function getFileChanges(steps: UpgradeStep[], file: string): FileChange[] {
+  const fileSteps = steps.filter(step => step.affectedFile && (
+    step.affectedFile === file || matchesFilePattern(step.affectedFile, file) || matchesFilePattern(file, step.affectedFile)
+  ));
+
+  return sortChronologically(fileSteps).map(step => ({
+    id: step.id,
+    instruction: step.instruction,
+    detailedDescription: step.detailedDescription,
+    from: step.from,
+    to: step.to,
+    stepType: step.stepType,
+    affectedFile: step.affectedFile,
+    severity: step.severity,
+    effortHours: step.effortHours,
+    productionRisk: step.productionRisk,
+    applicable: step.applicable,
+    notApplicableReason: step.notApplicableReason,
+    snippets: getCodeSnippets(step.detailedDescription),
+  }));
+}
+
+function getCodeSnippets(description: string): CodeSnippet[] {
+  return parseMarkdown(description)
+    .filter(token => token.type === 'code')
+    .map(token => ({ language: (token as Tokens.Code).lang || undefined, code: (token as Tokens.Code).text }));
+}
+
+// By version hop; steps of the same hop keep their plan order
+function sortChronologically(steps: UpgradeStep[]): UpgradeStep[] {
+  return [...steps].sort((a, b) => compareVersions(a.from, b.from) || compareVersions(a.to, b.to));
+}
@@ -0,0 +1,44 @@
+import { FrameworkDefinition, FrameworkMigrationSource } from '../types/framework';
+import { VersionRange } from '../types/upgrade-step';
+import { Version, compareVersions } from './version';
+import frameworks from '../data/frameworks.json';
+
+// Listed in detection order: a framework comes before the packages it depends on
+export const FRAMEWORKS = frameworks as FrameworkDefinition[];
+
+// Where a migration's plans and steps start, before the framework's first release. It stands for
+// the release of another framework named by migratesFrom, this framework isn't installed yet.
+export const MIGRATION_START_VERSION = '0.0';
+
+// Accepts the registry id or, for requests made before the registry, the display name
+export function getFramework(idOrName: string): FrameworkDefinition | undefined {
+  const key = idOrName.toLowerCase();
+  return FRAMEWORKS.find(framework => framework.id === key || framework.name.toLowerCase() === key);
+}
+
+export function getFrameworkName(idOrName: string): string {
+  return getFramework(idOrName)?.name || idOrName;
+}
+
+// Versions a plan can start or end on, oldest first: the registered ones, after the starting point
+// of a migration. None for an unknown framework.
+export function getPlanVersions(framework: FrameworkDefinition | undefined): string[] {
+  if (!framework) return [];
+  return framework.migratesFrom ? [MIGRATION_START_VERSION, ...framework.versions] : framework.versions;
+}
+
+export function getSupportedRange(framework: FrameworkDefinition): VersionRange {
+  const versions = getPlanVersions(framework);
+  return { from: versions[0], to: versions[versions.length - 1] };
+}
+
+// The release of the other framework a version stands for, when it is the starting point of a migration
+export function getMigrationSource(framework: FrameworkDefinition | undefined, version: Version | string): FrameworkMigrationSource | undefined {
+  return framework?.migratesFrom && compareVersions(version, MIGRATION_START_VERSION) === 0 ? framework.migratesFrom : undefined;
+}
+
+// A migration starts on a JSS release, e.g. JSS Next.JS 22.8, other versions show as they are
+export function getVersionLabel(framework: FrameworkDefinition | undefined, version: string): string {
+  const source = getMigrationSource(framework, version);
+  return source ? `JSS ${getFrameworkName(source.framework)} ${source.version}` : version;
+}
@@ -0,0 +1,11 @@
+import { Lexer, Token } from 'marked';
+
+// Step descriptions are GitHub-flavoured Markdown
+export function parseMarkdown(source: string): Token[] {
+  return new Lexer({ gfm: true }).lex(source);
+}
+
+// Only web, mail and same-site links are rendered as links
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href) || /^[/#](?!\/)/.test(href);
+}
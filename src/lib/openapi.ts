@@ -0,0 +1,337 @@
+import stepSchema from '../data/upgrade-step.schema.json';
+import compatibilitySchema from '../data/compatibility.schema.json';
+import { API_ERROR_CODES } from '../types/api';
+import { CONSOLIDATION_MODES } from '../types/upgrade-step';
+import { FRAMEWORKS } from './frameworks';
+import { FEATURE_QUESTIONS } from './project-features';
+
+type Schema = Record<string, unknown>;
+
+const API_VERSION = '1.4.0';
+
+// Fields of StepSource
+const SOURCE_PROPERTIES = ['id', 'instruction', 'detailedDescription', 'from', 'to', 'stepType', 'affectedFile', 'severity', 'effortHours', 'productionRisk'];
+
+// OpenAPI description of /api/v1. Step shapes come from the data schema and the enums from the
+// registry and the questionnaire, so the document can't drift from what the API validates.
+export function buildOpenApiDocument(): Schema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'JSS Upgrade Guide API',
+      version: API_VERSION,
+      description: 'Upgrade plans and steps for Sitecore JSS frameworks. Errors use the Error schema with a stable `code`.',
+    },
+    servers: [{ url: '/api/v1' }],
+    paths: {
+      '/frameworks': {
+        get: {
+          operationId: 'listFrameworks',
+          summary: 'List the supported frameworks',
+          responses: {
+            200: jsonResponse('Registered frameworks', {
+              type: 'object',
+              required: ['frameworks'],
+              properties: { frameworks: { type: 'array', items: ref('Framework') } },
+            }),
+            400: errorResponse('Unknown query parameter'),
+          },
+        },
+      },
+      '/frameworks/{id}/versions': {
+        get: {
+          operationId: 'listFrameworkVersions',
+          summary: 'List the selectable versions of a framework, oldest first',
+          parameters: [pathParameter('id', 'Framework id', frameworkIdSchema())],
+          responses: {
+            200: jsonResponse('Versions of the framework', {
+              type: 'object',
+              required: ['framework', 'versions'],
+              properties: {
+                framework: frameworkIdSchema(),
+                versions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['version', 'label'],
+                    properties: { version: ref('version'), label: { type: 'string' } },
+                  },
+                },
+              },
+            }),
+            400: errorResponse('Unknown query parameter'),
+            404: errorResponse('Unknown framework'),
+          },
+        },
+      },
+      '/frameworks/{id}/compatibility': {
+        get: {
+          operationId: 'getFrameworkCompatibility',
+          summary: 'Get what each release of a framework requires, oldest first',
+          parameters: [pathParameter('id', 'Framework id', frameworkIdSchema())],
+          responses: {
+            200: jsonResponse('Requirements per release', {
+              type: 'object',
+              required: ['framework', 'releases'],
+              properties: {
+                framework: frameworkIdSchema(),
+                releases: { type: 'array', items: ref('CompatibilityRelease') },
+              },
+            }),
+            400: errorResponse('Unknown query parameter'),
+            404: errorResponse('Unknown framework'),
+          },
+        },
+      },
+      '/upgrade-plan': {
+        get: {
+          operationId: 'getUpgradePlan',
+          summary: 'Get the steps to upgrade a framework from one version to another, or to roll it back',
+          description: 'A `to` lower than `from` returns a rollback plan: the steps of the upgrade undone last first, with `irreversible` set on the steps that have no safe reverse. Rollback plans are never consolidated.',
+          parameters: [
+            queryParameter('framework', 'Framework id', frameworkIdSchema(), true),
+            queryParameter('from', 'Current version', ref('version'), true),
+            queryParameter('to', 'Target version, lower than from for a rollback plan', ref('version'), true),
+            queryParameter('consolidate', 'How far similar steps are merged', { enum: CONSOLIDATION_MODES, default: 'full' }),
+            ...featureParameters(),
+          ],
+          responses: {
+            200: jsonResponse('The upgrade plan; `warning` is set when part of the range has no steps', ref('UpgradePlan')),
+            400: errorResponse('Missing, invalid or unknown parameter, unknown framework or from equal to to'),
+          },
+        },
+      },
+      '/files': {
+        get: {
+          operationId: 'listTouchedFiles',
+          summary: 'List the files an upgrade changes, by path',
+          parameters: [
+            queryParameter('framework', 'Framework id', frameworkIdSchema(), true),
+            queryParameter('from', 'Current version', ref('version'), true),
+            queryParameter('to', 'Target version, lower than from for a rollback', ref('version'), true),
+            ...featureParameters(),
+          ],
+          responses: {
+            200: jsonResponse('Files with at least one applicable step', {
+              type: 'object',
+              required: ['framework', 'from', 'to', 'files'],
+              properties: {
+                framework: frameworkIdSchema(),
+                from: ref('version'),
+                to: ref('version'),
+                files: { type: 'array', items: ref('TouchedFile') },
+              },
+            }),
+            400: errorResponse('Missing, invalid or unknown parameter, unknown framework or from equal to to'),
+          },
+        },
+      },
+      '/files/changes': {
+        get: {
+          operationId: 'getFileChanges',
+          summary: 'Get every change to one file across a version range, oldest first',
+          parameters: [
+            queryParameter('framework', 'Framework id', frameworkIdSchema(), true),
+            queryParameter('from', 'Current version', ref('version'), true),
+            queryParameter('to', 'Target version, lower than from for a rollback', ref('version'), true),
+            queryParameter('file', 'Project path or affectedFile pattern, e.g. package.json or src/**/*.tsx', { type: 'string' }, true),
+            ...featureParameters(),
+          ],
+          responses: {
+            200: jsonResponse('The changes, empty when no step touches the file', {
+              type: 'object',
+              required: ['framework', 'from', 'to', 'file', 'changes'],
+              properties: {
+                framework: frameworkIdSchema(),
+                from: ref('version'),
+                to: ref('version'),
+                file: { type: 'string' },
+                changes: { type: 'array', items: ref('FileChange') },
+              },
+            }),
+            400: errorResponse('Missing, invalid or unknown parameter, unknown framework or from equal to to'),
+          },
+        },
+      },
+      '/steps/{id}': {
+        get: {
+          operationId: 'getStep',
+          summary: 'Get a single step by its id',
+          parameters: [pathParameter('id', 'Step id as returned in upgrade plans', { type: 'string' })],
+          responses: {
+            200: jsonResponse('The step', {
+              type: 'object',
+              required: ['step'],
+              properties: { step: ref('Step') },
+            }),
+            400: errorResponse('Unknown query parameter'),
+            404: errorResponse('Unknown step'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ...rewriteRefs(stepSchema.definitions) as Schema,
+        Step: getPlanStepSchema(),
+        Framework: {
+          type: 'object',
+          required: ['id', 'name', 'packageName', 'packageManager', 'versions'],
+          properties: {
+            id: frameworkIdSchema(),
+            name: { type: 'string' },
+            packageName: { type: 'string' },
+            packageManager: { enum: ['npm', 'nuget'] },
+            versions: { type: 'array', items: ref('version') },
+          },
+        },
+        range: rewriteRefs(compatibilitySchema.definitions.range) as Schema,
+        CompatibilityRelease: rewriteRefs(compatibilitySchema.definitions.entry) as Schema,
+        VersionRange: {
+          type: 'object',
+          required: ['from', 'to'],
+          properties: { from: ref('version'), to: ref('version') },
+        },
+        UpgradePlan: {
+          type: 'object',
+          required: ['framework', 'from', 'to', 'steps', 'path', 'hasPath'],
+          properties: {
+            framework: frameworkIdSchema(),
+            from: ref('version'),
+            to: ref('version'),
+            steps: { type: 'array', items: ref('Step') },
+            path: {
+              type: 'object',
+              required: ['segments', 'gaps'],
+              properties: {
+                segments: { type: 'array', items: ref('VersionRange') },
+                gaps: { type: 'array', items: ref('VersionRange') },
+              },
+            },
+            hasPath: { type: 'boolean' },
+            warning: { type: 'string' },
+          },
+        },
+        TouchedFile: {
+          type: 'object',
+          required: ['file', 'changes', 'hops', 'effortHours'],
+          properties: {
+            file: { type: 'string', description: 'affectedFile as written in the step data, may contain wildcards' },
+            changes: { type: 'integer' },
+            hops: { type: 'array', items: ref('VersionRange') },
+            severity: ref('severity'),
+            effortHours: { type: 'number' },
+          },
+        },
+        FileChange: getFileChangeSchema(),
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: { enum: API_ERROR_CODES },
+                message: { type: 'string' },
+                parameter: { type: 'string', description: 'Parameter the error is about' },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+// A data-file step plus what the repository adds when it builds a plan
+function getPlanStepSchema(): Schema {
+  const { upgradeStep } = rewriteRefs(stepSchema.definitions) as { upgradeStep: { properties: Schema } & Schema };
+  const properties: Schema = {
+    ...upgradeStep.properties,
+    id: { type: 'string', description: 'Stable step id; merged steps have none, their sources do' },
+  };
+
+  return {
+    ...upgradeStep,
+    properties: {
+      ...properties,
+      applicable: { type: 'boolean', description: 'false when the step does not apply to the answers given' },
+      notApplicableReason: { type: 'string' },
+      sources: {
+        type: 'array',
+        description: 'Original steps a merged step was built from',
+        items: {
+          type: 'object',
+          properties: Object.fromEntries(SOURCE_PROPERTIES.map(name => [name, properties[name]])),
+        },
+      },
+    },
+  };
+}
+
+// A step's change to a file, with the code blocks of its description
+function getFileChangeSchema(): Schema {
+  const { properties } = getPlanStepSchema() as { properties: Schema };
+  const changeProperties = [...SOURCE_PROPERTIES, 'applicable', 'notApplicableReason'];
+
+  return {
+    type: 'object',
+    required: ['instruction', 'detailedDescription', 'from', 'to', 'snippets'],
+    properties: {
+      ...Object.fromEntries(changeProperties.map(name => [name, properties[name]])),
+      snippets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['code'],
+          properties: { language: { type: 'string' }, code: { type: 'string' } },
+        },
+      },
+    },
+  };
+}
+
+// Answers to the questionnaire; steps for other answers are returned as not applicable
+function featureParameters(): Schema[] {
+  return FEATURE_QUESTIONS.map(({ feature, question, options }) => queryParameter(
+    feature,
+    `${question} Steps for other answers are returned as not applicable.`,
+    { enum: options.map(option => String(option.value)) }
+  ));
+}
+
+function frameworkIdSchema(): Schema {
+  return { enum: FRAMEWORKS.map(framework => framework.id) };
+}
+
+function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function jsonResponse(description: string, schema: Schema): Schema {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+function errorResponse(description: string): Schema {
+  return jsonResponse(description, ref('Error'));
+}
+
+function pathParameter(name: string, description: string, schema: Schema): Schema {
+  return { name, in: 'path', required: true, description, schema };
+}
+
+function queryParameter(name: string, description: string, schema: Schema, required: boolean = false): Schema {
+  return { name, in: 'query', required, description, schema };
+}
+
+// The data schema is JSON Schema draft-07, whose definitions OpenAPI 3.1 keeps under components
+function rewriteRefs(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(rewriteRefs);
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+    key,
+    key === '$ref' && typeof child === 'string' ? child.replace('#/definitions/', '#/components/schemas/') : rewriteRefs(child),
+  ]));
+}
@@ -0,0 +1,184 @@
+import { Marked, Renderer } from 'marked';
+import { UpgradeStep } from '../types/upgrade-step';
+import { StepProgress } from '../types/upgrade-session';
+import { getSeverityLabel, getStepTypeLabel } from './step-types';
+import { isSafeHref } from './markdown';
+import { getFrameworkName } from './frameworks';
+import { compareVersions } from './version';
+
+export type ExportFormat = 'markdown' | 'github' | 'csv' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'github', 'csv', 'html'];
+
+export interface ExportablePlan {
+  framework: string;
+  fromVersion: string;
+  toVersion: string;
+  steps: UpgradeStep[];
+  warning?: string;
+  progress?: Record<string, StepProgress>; // Set when exporting a shared session
+}
+
+export interface ExportedPlan {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+export function exportPlan(plan: ExportablePlan, format: ExportFormat): ExportedPlan {
+  const baseName = `jss-upgrade-${plan.framework.toLowerCase().replace(/[^a-z0-9]+/g, '')}-${plan.fromVersion}-${plan.toVersion}`;
+
+  switch (format) {
+    case 'markdown':
+      return { content: toMarkdown(plan), contentType: 'text/markdown; charset=utf-8', fileName: `${baseName}.md` };
+    case 'github':
+      return { content: toGitHubIssue(plan), contentType: 'text/markdown; charset=utf-8', fileName: `${baseName}-issue.md` };
+    case 'csv':
+      return { content: toCsv(plan), contentType: 'text/csv; charset=utf-8', fileName: `${baseName}.csv` };
+    case 'html':
+      return { content: toHtml(plan), contentType: 'text/html; charset=utf-8', fileName: `${baseName}.html` };
+  }
+}
+
+function getTitle(plan: ExportablePlan): string {
+  const kind = compareVersions(plan.toVersion, plan.fromVersion) < 0 ? 'rollback' : 'upgrade';
+  return `JSS ${kind} plan: ${getFrameworkName(plan.framework)} ${plan.fromVersion} → ${plan.toVersion}`;
+}
+
+function getStepMeta(step: UpgradeStep): string[] {
+  return [
+    getStepTypeLabel(step.stepType),
+    `${step.from} → ${step.to}`,
+    ...(step.affectedFile ? [step.affectedFile] : []),
+    ...(step.irreversible ? ['irreversible'] : []),
+    ...(step.applicable === false ? [`not applicable: ${step.notApplicableReason || 'not needed for this project'}`] : []),
+  ];
+}
+
+function isFinished(plan: ExportablePlan, index: number): boolean {
+  const status = plan.progress?.[index]?.status;
+  return status === 'done' || status === 'skipped';
+}
+
+// Full document, descriptions are copied verbatim so code blocks stay intact
+function toMarkdown(plan: ExportablePlan): string {
+  const lines = [`# ${getTitle(plan)}`, ''];
+  if (plan.warning) {
+    lines.push(`> **Warning:** ${plan.warning}`, '');
+  }
+  lines.push(`${plan.steps.length} steps. Always backup your project before starting the upgrade process.`, '');
+
+  plan.steps.forEach((step, index) => {
+    const [type, range, ...rest] = getStepMeta(step);
+    lines.push(`## ${index + 1}. ${step.instruction}`, '');
+    lines.push(`*${type}* · ${range}${rest.map(item => ` · \`${item}\``).join('')}`, '');
+    if (plan.progress?.[index]) {
+      const progress = plan.progress[index];
+      lines.push(`**Status:** ${progress.status}${progress.note ? ` (${progress.note})` : ''}`, '');
+    }
+    lines.push(step.detailedDescription.trim(), '');
+  });
+
+  return lines.join('\n');
+}
+
+// Task list that can be pasted as a GitHub issue body, details collapsed per task
+function toGitHubIssue(plan: ExportablePlan): string {
+  const lines = [`## ${getTitle(plan)}`, ''];
+  if (plan.warning) {
+    lines.push(`> [!WARNING]`, `> ${plan.warning}`, '');
+  }
+
+  plan.steps.forEach((step, index) => {
+    const meta = getStepMeta(step).map((item, metaIndex) => (metaIndex > 1 ? `\`${item}\`` : item)).join(', ');
+    lines.push(`- [${isFinished(plan, index) ? 'x' : ' '}] **${step.instruction}** (${meta})`);
+    lines.push('  <details><summary>Details</summary>', '');
+    lines.push(...step.detailedDescription.trim().split('\n').map(line => (line ? `  ${line}` : '')));
+    lines.push('', '  </details>');
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// One row per step, columns line up with Jira and Azure Boards CSV import fields
+function toCsv(plan: ExportablePlan): string {
+  const header = [
+    'Step', 'Summary', 'Description', 'Step Type', 'From Version', 'To Version', 'Version Range', 'Affected File',
+    'Severity', 'Effort (hours)', 'Production Risk', 'Applicable', 'Status',
+  ];
+  const rows = plan.steps.map((step, index) => [
+    String(index + 1),
+    step.instruction,
+    step.detailedDescription,
+    getStepTypeLabel(step.stepType),
+    step.from,
+    step.to,
+    `${step.from} - ${step.to}`,
+    step.affectedFile || '',
+    step.severity ? getSeverityLabel(step.severity) : '',
+    step.effortHours === undefined ? '' : String(step.effortHours),
+    step.productionRisk ? 'Yes' : 'No',
+    step.applicable === false ? 'No' : 'Yes',
+    plan.progress?.[index]?.status || 'todo',
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Raw HTML in step descriptions is shown as text and unsafe links as plain text
+const markdownRenderer = new Renderer();
+markdownRenderer.html = ({ text }) => escapeHtml(text);
+markdownRenderer.link = function ({ href, tokens }) {
+  const text = this.parser.parseInline(tokens);
+  return isSafeHref(href) ? `<a href="${escapeHtml(href)}">${text}</a>` : text;
+};
+const marked = new Marked({ renderer: markdownRenderer, gfm: true });
+
+// Self-contained page with inline styles, laid out for printing
+function toHtml(plan: ExportablePlan): string {
+  const steps = plan.steps.map((step, index) => `
+    <section class="step">
+      <h2><span class="checkbox">${isFinished(plan, index) ? '☑' : '☐'}</span> ${index + 1}. ${escapeHtml(step.instruction)}</h2>
+      <p class="meta">${getStepMeta(step).map(escapeHtml).join(' · ')}</p>
+      ${marked.parse(step.detailedDescription, { async: false })}
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(getTitle(plan))}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #171717; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    h1 { font-size: 1.75rem; }
+    h2 { font-size: 1.15rem; margin-bottom: 0.25rem; }
+    .meta { color: #6b7280; font-size: 0.85rem; margin-top: 0; }
+    .warning { background: #fefce8; border: 1px solid #fde68a; padding: 0.75rem 1rem; border-radius: 0.5rem; }
+    .step { border-top: 1px solid #e5e7eb; padding-top: 0.5rem; break-inside: avoid-page; }
+    .checkbox { font-weight: normal; }
+    pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; white-space: pre-wrap; }
+    code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.85em; }
+    @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(getTitle(plan))}</h1>
+  ${plan.warning ? `<p class="warning">${escapeHtml(plan.warning)}</p>` : ''}
+  <p>${plan.steps.length} steps. Always backup your project before starting the upgrade process.</p>
+${steps}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,52 @@
+import { ApiError, UPGRADE_PLAN_PARAMETERS, UpgradePlanQuery, parseUpgradePlanQuery } from './api-v1';
+import { PlanRequest } from './plan-url';
+
+// Props of the pages under /[framework]/[from]/[to]
+export interface PlanPageProps {
+  params: Promise<{ framework: string; from: string; to: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export interface PlanAddress {
+  query: UpgradePlanQuery;
+  request: PlanRequest;
+}
+
+// The parts of a plan page address, with the plan options as a sorted query string so they can
+// be compared, e.g. as React cache() arguments. Unrelated parameters, e.g. from a campaign link, are dropped.
+export async function readPlanPageProps({ params, searchParams }: PlanPageProps): Promise<{ framework: string; from: string; to: string; search: string }> {
+  const { framework, from, to } = await params;
+  const search = new URLSearchParams();
+  Object.entries(await searchParams).forEach(([name, value]) => {
+    if (typeof value === 'string' && UPGRADE_PLAN_PARAMETERS.includes(name)) {
+      search.set(name, value);
+    }
+  });
+  search.sort();
+  return { framework, from, to, search: search.toString() };
+}
+
+// Reads a plan page address with the same rules as the v1 API; null when anything in it is invalid
+export function parsePlanAddress(framework: string, from: string, to: string, search: string): PlanAddress | null {
+  const searchParams = new URLSearchParams(search);
+  searchParams.set('framework', framework);
+  searchParams.set('from', from);
+  searchParams.set('to', to);
+
+  try {
+    const query = parseUpgradePlanQuery(searchParams);
+    return {
+      query,
+      request: {
+        framework: query.framework.id,
+        fromVersion: from,
+        toVersion: to,
+        features: query.features,
+        consolidate: query.consolidate,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ApiError) return null;
+    throw error;
+  }
+}
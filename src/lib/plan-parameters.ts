@@ -0,0 +1,91 @@
+import { FrameworkDefinition } from '../types/framework';
+import { CONSOLIDATION_MODES, ConsolidationMode, ProjectFeatures } from '../types/upgrade-step';
+import { Version, tryParseVersion } from './version';
+import { getFramework } from './frameworks';
+import { parseProjectFeatures } from './project-features';
+
+// The plan a UI route is asked for, as sent in a JSON body, a form or a query string
+export interface PlanParameterFields {
+  framework?: unknown;
+  fromVersion?: unknown;
+  toVersion?: unknown;
+  projectFiles?: unknown;
+  consolidate?: unknown;
+  features?: unknown; // The questionnaire answers as an object
+}
+
+export interface PlanParameters {
+  framework: FrameworkDefinition;
+  from: Version;
+  to: Version;
+  projectFiles?: string[];
+  consolidate?: ConsolidationMode; // Left out when not asked for, which is a full merge
+  features: ProjectFeatures;
+}
+
+// Validation shared by the routes behind the UI; /api/v1 has its own stricter parseUpgradePlanQuery.
+// Returns the message for a 400 when a parameter is missing or invalid.
+export function parsePlanParameters(fields: PlanParameterFields): { parameters: PlanParameters } | { error: string } {
+  const { framework, fromVersion, toVersion, projectFiles, consolidate, features } = fields;
+
+  if (typeof framework !== 'string' || typeof fromVersion !== 'string' || typeof toVersion !== 'string'
+    || !framework || !fromVersion || !toVersion) {
+    return { error: 'Missing required parameters' };
+  }
+
+  const frameworkDefinition = getFramework(framework);
+  if (!frameworkDefinition) {
+    return { error: `Unknown framework: ${framework}` };
+  }
+
+  const from = tryParseVersion(fromVersion);
+  const to = tryParseVersion(toVersion);
+  if (!from || !to) {
+    return { error: 'fromVersion and toVersion must be versions like 22.4 or 22.4.2' };
+  }
+
+  if (projectFiles !== undefined && !(Array.isArray(projectFiles) && projectFiles.every(file => typeof file === 'string'))) {
+    return { error: 'projectFiles must be an array of file paths' };
+  }
+
+  // 'none' returns the raw per-version steps, useful when a merge hides something
+  if (consolidate !== undefined && consolidate !== null && consolidate !== ''
+    && !CONSOLIDATION_MODES.includes(consolidate as ConsolidationMode)) {
+    return { error: `consolidate must be one of: ${CONSOLIDATION_MODES.join(', ')}` };
+  }
+
+  const projectFeatures = features === undefined ? {} : parseProjectFeatures(features);
+  if (!projectFeatures) {
+    return { error: 'features contains an unknown project feature answer' };
+  }
+
+  return {
+    parameters: {
+      framework: frameworkDefinition,
+      from,
+      to,
+      ...(projectFiles ? { projectFiles: projectFiles as string[] } : {}),
+      ...(consolidate ? { consolidate: consolidate as ConsolidationMode } : {}),
+      features: projectFeatures,
+    },
+  };
+}
+
+// Fields of a multipart request that also uploads the project; the answers come as a JSON string
+export function getFormPlanParameterFields(formData: FormData): PlanParameterFields {
+  const features = formData.get('features');
+  let parsedFeatures: unknown;
+  try {
+    parsedFeatures = typeof features === 'string' ? JSON.parse(features) : undefined;
+  } catch {
+    parsedFeatures = null;
+  }
+
+  return {
+    framework: formData.get('framework'),
+    fromVersion: formData.get('fromVersion'),
+    toVersion: formData.get('toVersion'),
+    consolidate: formData.get('consolidate'),
+    features: parsedFeatures,
+  };
+}
@@ -0,0 +1,103 @@
+import { STEP_SEVERITIES, StepSeverity, UpgradeStep, VersionRange } from '../types/upgrade-step';
+import { STEP_TYPES, getStepTypeLabel } from './step-types';
+import { formatVersionRange } from './upgrade-path';
+import { compareVersions } from './version';
+
+export interface PlanBreakdownRow {
+  label: string;
+  steps: number;
+  effortHours: number;
+}
+
+// Size of the work in a plan, for sprint planning. Only applicable steps count.
+export interface PlanSummary {
+  steps: number;
+  effortHours: number;
+  unestimatedSteps: number; // Steps without an effort estimate, not part of effortHours
+  productionRiskSteps: number;
+  bySeverity: Record<StepSeverity, number>;
+  byStepType: PlanBreakdownRow[];
+  byHop: PlanBreakdownRow[]; // Merged steps are counted under the hops of the steps they were merged from
+}
+
+export function summarizePlan(steps: UpgradeStep[]): PlanSummary {
+  const applicableSteps = steps.filter(step => step.applicable !== false);
+  const bySeverity = Object.fromEntries(STEP_SEVERITIES.map(severity => [severity, 0])) as Record<StepSeverity, number>;
+  applicableSteps.forEach(step => {
+    if (step.severity) bySeverity[step.severity]++;
+  });
+
+  const byStepType = breakDown(applicableSteps, step => getStepTypeLabel(step.stepType));
+  const typeOrder = STEP_TYPES.map(stepType => getStepTypeLabel(stepType));
+  byStepType.sort((a, b) => getOrder(typeOrder, a.label) - getOrder(typeOrder, b.label));
+
+  const hops = new Map<string, { hop: VersionRange; row: PlanBreakdownRow }>();
+  applicableSteps.flatMap(getHopShares).forEach(({ hop, steps: hopSteps, effortHours }) => {
+    const label = formatVersionRange(hop);
+    if (!hops.has(label)) {
+      hops.set(label, { hop, row: { label, steps: 0, effortHours: 0 } });
+    }
+    const { row } = hops.get(label)!;
+    row.steps += hopSteps;
+    row.effortHours += effortHours;
+  });
+  const byHop = [...hops.values()]
+    .sort((a, b) => compareVersions(a.hop.from, b.hop.from) || compareVersions(a.hop.to, b.hop.to))
+    .map(({ row }) => row);
+
+  return {
+    steps: applicableSteps.length,
+    effortHours: sumEffort(applicableSteps),
+    unestimatedSteps: applicableSteps.filter(step => step.effortHours === undefined).length,
+    productionRiskSteps: applicableSteps.filter(step => step.productionRisk).length,
+    bySeverity,
+    byStepType,
+    byHop,
+  };
+}
+
+export function formatEffort(hours: number): string {
+  return `${Number(hours.toFixed(1))} h`;
+}
+
+function breakDown(steps: UpgradeStep[], getLabel: (step: UpgradeStep) => string): PlanBreakdownRow[] {
+  const groups = new Map<string, UpgradeStep[]>();
+  steps.forEach(step => {
+    const label = getLabel(step);
+    if (!groups.has(label)) {
+      groups.set(label, []);
+    }
+    groups.get(label)!.push(step);
+  });
+
+  return Array.from(groups, ([label, groupSteps]) => ({ label, steps: groupSteps.length, effortHours: sumEffort(groupSteps) }));
+}
+
+// A merged step covers a range that overlaps other merged steps, so it is split over the hops of the
+// steps it was merged from: each hop gets its steps and a share of the effort in proportion to their
+// estimates, or an even share when none has one. The hops then add up to the plan.
+function getHopShares(step: UpgradeStep): { hop: VersionRange; steps: number; effortHours: number }[] {
+  const sources = step.sources || [];
+  if (sources.length === 0) {
+    return [{ hop: step, steps: 1, effortHours: step.effortHours || 0 }];
+  }
+
+  // A rollback step undoes the steps it lists, so their hops are walked the other way
+  const rollback = compareVersions(step.from, step.to) > 0;
+  const estimated = sumEffort(sources);
+  return sources.map(source => ({
+    hop: rollback === compareVersions(source.from, source.to) > 0 ? source : { from: source.to, to: source.from },
+    steps: 1,
+    effortHours: (step.effortHours || 0) * (estimated > 0 ? (source.effortHours || 0) / estimated : 1 / sources.length),
+  }));
+}
+
+function sumEffort(steps: { effortHours?: number }[]): number {
+  return steps.reduce((total, step) => total + (step.effortHours || 0), 0);
+}
+
+// Labels that aren't in the order, like General, go last
+function getOrder(order: string[], label: string): number {
+  const index = order.indexOf(label);
+  return index === -1 ? order.length : index;
+}
@@ -0,0 +1,49 @@
+import { ConsolidationMode, Framework, ProjectFeatures } from '../types/upgrade-step';
+import { FEATURE_QUESTIONS } from './project-features';
+
+// What a plan page shows; the versions are kept as written, e.g. 22.0 rather than 22.0.0
+export interface PlanRequest {
+  framework: Framework;
+  fromVersion: string;
+  toVersion: string;
+  features?: ProjectFeatures;
+  consolidate?: ConsolidationMode;
+}
+
+// Shareable address of a plan, e.g. /nextjs/21.7/22.9?hosting=xm-cloud. Options at their default are left out.
+export function getPlanUrl(request: PlanRequest): string {
+  const query = getFeatureQuery(request.features);
+  if (request.consolidate && request.consolidate !== 'full') {
+    query.set('consolidate', request.consolidate);
+  }
+  return buildUrl(getPlanPath(request), query);
+}
+
+// The file view of a plan, optionally opened on one file; it always lists the per-version steps
+export function getFileViewUrl(request: PlanRequest, file?: string): string {
+  const query = getFeatureQuery(request.features);
+  if (file) {
+    query.set('file', file);
+  }
+  return buildUrl(`${getPlanPath(request)}/files`, query);
+}
+
+function getPlanPath(request: PlanRequest): string {
+  return `/${encodeURIComponent(request.framework)}/${encodeURIComponent(request.fromVersion)}/${encodeURIComponent(request.toVersion)}`;
+}
+
+function getFeatureQuery(features: ProjectFeatures | undefined): URLSearchParams {
+  const query = new URLSearchParams();
+  FEATURE_QUESTIONS.forEach(({ feature }) => {
+    const answer = features?.[feature];
+    if (answer !== undefined) {
+      query.set(feature, String(answer));
+    }
+  });
+  return query;
+}
+
+function buildUrl(path: string, query: URLSearchParams): string {
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
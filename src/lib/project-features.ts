@@ -0,0 +1,92 @@
+import { ProjectFeatures } from '../types/upgrade-step';
+
+export interface FeatureOption {
+  value: string | boolean;
+  label: string;
+  conditionLabel: string; // Shown on steps that require this answer
+}
+
+export interface FeatureQuestion {
+  feature: keyof ProjectFeatures;
+  question: string;
+  options: FeatureOption[];
+}
+
+const yesNo = (yes: string, no: string): FeatureOption[] => [
+  { value: true, label: 'Yes', conditionLabel: yes },
+  { value: false, label: 'No', conditionLabel: no },
+];
+
+// The questionnaire in the selector and the conditions steps can declare
+export const FEATURE_QUESTIONS: FeatureQuestion[] = [
+  {
+    feature: 'hosting',
+    question: 'Where is Sitecore hosted?',
+    options: [
+      { value: 'xm-cloud', label: 'XM Cloud', conditionLabel: 'XM Cloud' },
+      { value: 'xp', label: 'XP / XM (self-hosted)', conditionLabel: 'XP / XM' },
+    ],
+  },
+  {
+    feature: 'layoutService',
+    question: 'How do you fetch layout data?',
+    options: [
+      { value: 'graphql', label: 'GraphQL (Experience Edge)', conditionLabel: 'GraphQL layout service' },
+      { value: 'rest', label: 'REST layout service', conditionLabel: 'REST layout service' },
+    ],
+  },
+  {
+    feature: 'personalization',
+    question: 'Do you use personalization?',
+    options: yesNo('Personalization', 'No personalization'),
+  },
+  {
+    feature: 'sxa',
+    question: 'Is the site built with SXA?',
+    options: yesNo('SXA', 'No SXA'),
+  },
+  {
+    feature: 'authentication',
+    question: 'Do you use authentication or protected routes?',
+    options: yesNo('Authentication', 'No authentication'),
+  },
+];
+
+// Read answers from a request body or query string; booleans may arrive as "true"/"false".
+// Returns null when an answer isn't one of the question's options.
+export function parseProjectFeatures(input: unknown): ProjectFeatures | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const features: Record<string, string | boolean> = {};
+
+  for (const { feature, options } of FEATURE_QUESTIONS) {
+    const answer = (input as Record<string, unknown>)[feature];
+    if (answer === undefined || answer === null || answer === '') continue;
+
+    const option = options.find(option => option.value === answer || String(option.value) === answer);
+    if (!option) return null;
+    features[feature] = option.value;
+  }
+
+  return features as ProjectFeatures;
+}
+
+// Labels for the conditions a step declares, e.g. ['XP / XM', 'Personalization']
+export function getConditionLabels(conditions: ProjectFeatures): string[] {
+  return FEATURE_QUESTIONS.flatMap(({ feature, options }) => {
+    const option = options.find(option => option.value === conditions[feature]);
+    return option ? [option.conditionLabel] : [];
+  });
+}
+
+// Conditions the answers rule out; unanswered questions never rule a step out
+export function getUnmetConditions(conditions: ProjectFeatures | undefined, features: ProjectFeatures): string[] {
+  if (!conditions) return [];
+
+  return FEATURE_QUESTIONS.flatMap(({ feature, options }) => {
+    if (conditions[feature] === undefined || features[feature] === undefined || conditions[feature] === features[feature]) {
+      return [];
+    }
+    const option = options.find(option => option.value === conditions[feature]);
+    return option ? [option.conditionLabel] : [];
+  });
+}
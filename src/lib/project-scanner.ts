@@ -0,0 +1,270 @@
+import { Gunzip, unzipSync } from 'fflate';
+import { UpgradeStep } from '../types/upgrade-step';
+import { DetectedProject, ProjectSnapshot } from '../types/project';
+import { formatVersion, getRangeMinimum } from './version';
+import { FRAMEWORKS } from './frameworks';
+
+// npm packages that identify the framework of a scanned project, in registry order
+const FRAMEWORK_PACKAGES = FRAMEWORKS.filter(framework => framework.packageManager === 'npm');
+
+// Folders that never contain files an upgrade step refers to
+const IGNORED_DIRECTORIES = ['node_modules', '.git', '.next', 'dist', 'out', 'coverage'];
+
+// Files larger than this are listed but their contents are not kept
+const MAX_TEXT_FILE_SIZE = 512 * 1024;
+
+// Uploads above this size are rejected before they are unpacked
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+// Archives are unpacked in memory, so a small zip or gzip bomb must not get past this
+const MAX_UNPACKED_SIZE = 200 * 1024 * 1024;
+
+// Compressed input is fed to gunzip in slices this big, each can only grow so much
+const GUNZIP_SLICE_SIZE = 16 * 1024;
+
+export class ProjectArchiveTooLargeError extends Error {
+  constructor() {
+    super(`The project unpacks to more than ${MAX_UNPACKED_SIZE / 1024 / 1024} MB`);
+  }
+}
+
+export type ProjectUpload = { snapshot: ProjectSnapshot } | { error: string; status: number };
+
+export function isSupportedProjectArchive(fileName: string): boolean {
+  return /(\.json|\.zip|\.tar|\.tar\.gz|\.tgz)$/i.test(fileName);
+}
+
+// Every upload route reads the project through here: file type, upload size and unpacked size are checked
+export async function readProjectUpload(file: File): Promise<ProjectUpload> {
+  if (!isSupportedProjectArchive(file.name)) {
+    return { error: 'Upload a package.json, .zip, .tar, .tar.gz or .tgz file', status: 400 };
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return { error: 'Project file is too large', status: 413 };
+  }
+
+  try {
+    return { snapshot: readProjectArchive(file.name, new Uint8Array(await file.arrayBuffer())) };
+  } catch (error) {
+    if (error instanceof ProjectArchiveTooLargeError) {
+      return { error: error.message, status: 413 };
+    }
+    console.error('Failed to read uploaded project:', error);
+    return { error: 'Could not read the uploaded project file', status: 400 };
+  }
+}
+
+// Read an uploaded package.json, zip or tarball into a snapshot rooted at the JSS app
+export function readProjectArchive(fileName: string, data: Uint8Array): ProjectSnapshot {
+  const lowerName = fileName.toLowerCase();
+  let entries: Record<string, Uint8Array>;
+
+  if (lowerName.endsWith('.json')) {
+    return {
+      files: { 'package.json': decodeText(data) },
+      hasSourceFiles: false,
+    };
+  } else if (lowerName.endsWith('.zip')) {
+    let unpackedSize = 0;
+    entries = unzipSync(data, {
+      filter: (file) => {
+        if (file.name.endsWith('/') || isIgnoredPath(file.name)) return false;
+        unpackedSize += file.originalSize;
+        if (unpackedSize > MAX_UNPACKED_SIZE) throw new ProjectArchiveTooLargeError();
+        return true;
+      },
+    });
+  } else if (lowerName.endsWith('.tar.gz') || lowerName.endsWith('.tgz')) {
+    entries = readTarEntries(gunzipLimited(data));
+  } else if (lowerName.endsWith('.tar')) {
+    entries = readTarEntries(data);
+  } else {
+    throw new Error(`Unsupported project archive: ${fileName}`);
+  }
+
+  const files: Record<string, string> = {};
+  Object.entries(entries).forEach(([path, content]) => {
+    const normalizedPath = normalizePath(path);
+    if (normalizedPath && !isIgnoredPath(normalizedPath)) {
+      files[normalizedPath] = isTextContent(content) ? decodeText(content) : '';
+    }
+  });
+
+  return {
+    files: rebaseOnAppRoot(files),
+    hasSourceFiles: true,
+  };
+}
+
+export function detectProject(snapshot: ProjectSnapshot): DetectedProject | null {
+  const packageJson = snapshot.files['package.json'];
+  if (!packageJson) return null;
+
+  let manifest: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> };
+  try {
+    manifest = JSON.parse(packageJson);
+  } catch {
+    return null;
+  }
+
+  const dependencies = { ...manifest.devDependencies, ...manifest.dependencies };
+  for (const { id: framework, packageName } of FRAMEWORK_PACKAGES) {
+    const packageVersion = dependencies[packageName];
+    if (!packageVersion) continue;
+
+    const version = getRangeMinimum(packageVersion);
+    if (!version) continue;
+
+    return {
+      framework,
+      packageName,
+      packageVersion,
+      version: formatVersion(version),
+    };
+  }
+
+  return null;
+}
+
+// Mark steps whose affected file is missing from the project as not applicable
+export function annotateStepsForProject(steps: UpgradeStep[], projectFiles: string[]): UpgradeStep[] {
+  return steps.map(step => {
+    // Steps already ruled out, e.g. by the feature questionnaire, keep their reason
+    if (step.applicable === false) return step;
+
+    const applicable = !step.affectedFile || projectFiles.some(file => matchesFilePattern(step.affectedFile!, file));
+    return applicable
+      ? { ...step, applicable }
+      : { ...step, applicable, notApplicableReason: `${step.affectedFile} was not found in your project` };
+  });
+}
+
+// Match a project path against an affectedFile value, which may contain * and ** wildcards
+export function matchesFilePattern(pattern: string, filePath: string): boolean {
+  return globToRegExp(normalizePath(pattern)).test(normalizePath(filePath));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of folders, including none
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// The JSS app may live in a sub-folder of the archive (repo root folder, monorepo package)
+function rebaseOnAppRoot(files: Record<string, string>): Record<string, string> {
+  const manifests = Object.keys(files)
+    .filter(path => path === 'package.json' || path.endsWith('/package.json'))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+
+  const appManifest = manifests.find(path => detectProject({ files: { 'package.json': files[path] }, hasSourceFiles: false }))
+    || manifests[0];
+  if (!appManifest || appManifest === 'package.json') return files;
+
+  const root = appManifest.slice(0, -'package.json'.length);
+  const rebased: Record<string, string> = {};
+  Object.entries(files).forEach(([path, content]) => {
+    if (path.startsWith(root)) {
+      rebased[path.slice(root.length)] = content;
+    }
+  });
+  return rebased;
+}
+
+function gunzipLimited(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const gunzip = new Gunzip((chunk) => {
+    size += chunk.length;
+    if (size > MAX_UNPACKED_SIZE) throw new ProjectArchiveTooLargeError();
+    chunks.push(chunk);
+  });
+  for (let offset = 0; offset < data.length; offset += GUNZIP_SLICE_SIZE) {
+    gunzip.push(data.subarray(offset, offset + GUNZIP_SLICE_SIZE), offset + GUNZIP_SLICE_SIZE >= data.length);
+  }
+
+  const result = new Uint8Array(size);
+  let position = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
+
+// Minimal ustar reader, including GNU long names and pax path headers
+function readTarEntries(data: Uint8Array): Record<string, Uint8Array> {
+  const entries: Record<string, Uint8Array> = {};
+  let offset = 0;
+  let pendingName: string | null = null;
+  let unpackedSize = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const name = readTarString(header, 0, 100);
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const typeFlag = String.fromCharCode(header[156]);
+    const prefix = readTarString(header, 345, 155);
+    const content = data.subarray(offset + 512, offset + 512 + size);
+
+    if (typeFlag === 'L') {
+      pendingName = decodeText(content).replace(/\0+$/, '');
+    } else if (typeFlag === 'x') {
+      const pathRecord = decodeText(content).match(/\d+ path=([^\n]*)\n/);
+      pendingName = pathRecord ? pathRecord[1] : null;
+    } else {
+      const fullName = pendingName || (prefix ? `${prefix}/${name}` : name);
+      pendingName = null;
+      if ((typeFlag === '0' || typeFlag === '\0') && !isIgnoredPath(fullName)) {
+        unpackedSize += size;
+        if (unpackedSize > MAX_UNPACKED_SIZE) throw new ProjectArchiveTooLargeError();
+        entries[fullName] = content;
+      }
+    }
+
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+}
+
+function readTarString(header: Uint8Array, start: number, length: number): string {
+  const bytes = header.subarray(start, start + length);
+  const end = bytes.indexOf(0);
+  return decodeText(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\//, '');
+}
+
+export function isIgnoredPath(path: string): boolean {
+  return normalizePath(path).split('/').some(segment => IGNORED_DIRECTORIES.includes(segment));
+}
+
+function isTextContent(content: Uint8Array): boolean {
+  return content.length <= MAX_TEXT_FILE_SIZE && !content.subarray(0, 8000).includes(0);
+}
+
+function decodeText(content: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(content);
+}
@@ -0,0 +1,12 @@
+// The JSON body of a request. A body that isn't JSON is the caller's mistake, so it comes back as
+// an error message for a 400 instead of a thrown SyntaxError that would end up as a 500.
+export async function readJsonBody(request: Request): Promise<{ body: unknown } | { error: string }> {
+  try {
+    return { body: await request.json() };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return { error: 'The request body must be valid JSON' };
+    }
+    throw error;
+  }
+}
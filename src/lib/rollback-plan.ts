@@ -0,0 +1,118 @@
+import { StepSource, UpgradeStep } from '../types/upgrade-step';
+import { FrameworkDefinition } from '../types/framework';
+import { Version, formatVersion } from './version';
+import { buildPackageUpdateStep } from './compatibility';
+import { getContainedStepIds } from './step-dependencies';
+
+// Undo the steps of an upgrade, given in plan order: the last step done is the first one undone. The
+// package updates of every hop become a single downgrade at the end. The reversed dependencies are
+// kept on the steps, sorting the plan makes sure a step is only undone once the steps that depended
+// on it are.
+export function buildRollbackSteps(
+  framework: FrameworkDefinition | undefined,
+  upgradeSteps: UpgradeStep[],
+  fromVersion: Version,
+  toVersion: Version
+): UpgradeStep[] {
+  const reversed = [...upgradeSteps].reverse();
+  const packageSteps = reversed.filter(isPackageUpdate);
+  const rollbackSteps = reversed
+    .filter(step => !isPackageUpdate(step))
+    .map(step => reverseStep(step, upgradeSteps));
+
+  return packageSteps.length > 0
+    ? [...rollbackSteps, reversePackageUpdates(framework, packageSteps, upgradeSteps, fromVersion, toVersion)]
+    : rollbackSteps;
+}
+
+function isPackageUpdate(step: UpgradeStep): boolean {
+  return step.stepType === 'package-update' && !step.conditions;
+}
+
+// Operations are left out, codemods only move a project forward
+function reverseStep(step: UpgradeStep, upgradeSteps: UpgradeStep[]): UpgradeStep {
+  const irreversible = step.irreversible || (!step.rollback && !step.affectedFile);
+
+  return {
+    instruction: `Undo: ${step.instruction}`,
+    detailedDescription: getRollbackDescription(step, irreversible),
+    from: step.to,
+    to: step.from,
+    ...getReverseDependencies([step], upgradeSteps),
+    ...(step.stepType ? { stepType: step.stepType } : {}),
+    ...(step.affectedFile ? { affectedFile: step.affectedFile } : {}),
+    ...(step.severity ? { severity: step.severity } : {}),
+    ...(step.productionRisk ? { productionRisk: true } : {}),
+    ...(irreversible ? { irreversible: true } : {}),
+    ...(step.conditions ? { conditions: step.conditions } : {}),
+    ...(step.applicable === false ? { applicable: false, notApplicableReason: step.notApplicableReason } : {}),
+    sources: [toSource(step)],
+  };
+}
+
+// Without reverse instructions a step that changed one file is undone by restoring that file; one
+// that didn't has no known way back
+function getRollbackDescription(step: UpgradeStep, irreversible: boolean): string {
+  if (step.rollback) {
+    return irreversible ? `This step can't be undone safely.\n\n${step.rollback}` : step.rollback;
+  }
+  if (irreversible) {
+    return `This step can't be undone safely. What the upgrade did:\n\n${step.detailedDescription}`;
+  }
+  return `Restore \`${step.affectedFile}\` as it was before the upgrade, e.g. \`git checkout <commit before the upgrade> -- ${step.affectedFile}\`.`;
+}
+
+function reversePackageUpdates(
+  framework: FrameworkDefinition | undefined,
+  packageSteps: UpgradeStep[],
+  upgradeSteps: UpgradeStep[],
+  fromVersion: Version,
+  toVersion: Version
+): UpgradeStep {
+  const target = formatVersion(toVersion);
+  // The earliest hop's reverse instructions are the ones that lead back to the target
+  const earliest = packageSteps[packageSteps.length - 1];
+  const generated = framework ? buildPackageUpdateStep(framework, fromVersion, toVersion) : null;
+  const irreversible = packageSteps.some(step => step.irreversible);
+  const severity = packageSteps.find(step => step.severity === 'breaking')?.severity || earliest.severity;
+
+  return {
+    instruction: generated?.instruction || `Downgrade the packages to ${target}`,
+    detailedDescription: generated?.detailedDescription || earliest.rollback ||
+      `Restore \`package.json\` and the lockfile as they were on ${target} and reinstall the packages.`,
+    from: formatVersion(fromVersion),
+    to: target,
+    ...getReverseDependencies(packageSteps, upgradeSteps),
+    stepType: 'package-update',
+    ...(earliest.affectedFile ? { affectedFile: earliest.affectedFile } : {}),
+    ...(severity ? { severity } : {}),
+    ...(packageSteps.some(step => step.productionRisk) ? { productionRisk: true } : {}),
+    ...(irreversible ? { irreversible: true } : {}),
+    sources: packageSteps.map(toSource),
+  };
+}
+
+// Undoing a step has to wait for the steps that depended on it to be undone. Rollback steps carry
+// the upgrade step they undo as their source, so the ids still resolve within the plan.
+function getReverseDependencies(steps: UpgradeStep[], upgradeSteps: UpgradeStep[]): Pick<UpgradeStep, 'dependsOn'> {
+  const ownIds = new Set(steps.flatMap(getContainedStepIds));
+  const dependsOn = upgradeSteps
+    .filter(step => !steps.includes(step) && (step.dependsOn || []).some(id => ownIds.has(id)))
+    .flatMap(getContainedStepIds);
+  return dependsOn.length > 0 ? { dependsOn: [...new Set(dependsOn)] } : {};
+}
+
+function toSource(step: UpgradeStep): StepSource {
+  return {
+    id: step.id,
+    instruction: step.instruction,
+    detailedDescription: step.detailedDescription,
+    from: step.from,
+    to: step.to,
+    stepType: step.stepType,
+    affectedFile: step.affectedFile,
+    severity: step.severity,
+    effortHours: step.effortHours,
+    productionRisk: step.productionRisk,
+  };
+}
@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { StepProgress, UpgradeSession } from '../types/upgrade-session';
+import { StepVerification } from '../types/verification';
+
+// Abstract session store interface, so sessions can move to a database later
+export interface ISessionStore {
+  createSession(session: Omit<UpgradeSession, 'id' | 'progress' | 'createdAt' | 'updatedAt'>): Promise<UpgradeSession>;
+  getSession(id: string): Promise<UpgradeSession | null>;
+  updateStepProgress(id: string, stepIndex: number, progress: Omit<StepProgress, 'verification' | 'updatedAt'>): Promise<UpgradeSession | null>;
+  recordVerifications(id: string, verifications: StepVerification[]): Promise<UpgradeSession | null>;
+}
+
+// Local file implementation, one JSON file per session
+export class FileSessionStore implements ISessionStore {
+  // Serializes read-modify-write cycles per session within this process
+  private pendingWrites = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  async createSession(session: Omit<UpgradeSession, 'id' | 'progress' | 'createdAt' | 'updatedAt'>): Promise<UpgradeSession> {
+    const now = new Date().toISOString();
+    const created: UpgradeSession = {
+      ...session,
+      id: crypto.randomBytes(9).toString('base64url'),
+      progress: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.writeSession(created);
+    return created;
+  }
+
+  async getSession(id: string): Promise<UpgradeSession | null> {
+    if (!this.isValidId(id)) return null;
+
+    try {
+      const content = await fs.readFile(this.getSessionPath(id), 'utf-8');
+      return JSON.parse(content) as UpgradeSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async updateStepProgress(id: string, stepIndex: number, progress: Omit<StepProgress, 'verification' | 'updatedAt'>): Promise<UpgradeSession | null> {
+    return this.withLock(id, async () => {
+      const session = await this.getSession(id);
+      if (!session || stepIndex < 0 || stepIndex >= session.steps.length) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const verification = session.progress[stepIndex]?.verification;
+      session.progress[stepIndex] = {
+        status: progress.status,
+        ...(progress.note ? { note: progress.note } : {}),
+        ...(verification ? { verification } : {}),
+        updatedAt: now,
+      };
+      session.updatedAt = now;
+
+      await this.writeSession(session);
+      return session;
+    });
+  }
+
+  // Steps whose rules pass are ticked off unless someone already marked them done or skipped;
+  // a failing check never unticks a step, the evidence shows next to it instead
+  async recordVerifications(id: string, verifications: StepVerification[]): Promise<UpgradeSession | null> {
+    return this.withLock(id, async () => {
+      const session = await this.getSession(id);
+      if (!session) return null;
+
+      const now = new Date().toISOString();
+      verifications
+        .filter(verification => verification.stepIndex >= 0 && verification.stepIndex < session.steps.length)
+        .forEach(verification => {
+          const current = session.progress[verification.stepIndex];
+          const status = current?.status || 'todo';
+          session.progress[verification.stepIndex] = {
+            status: verification.status === 'pass' && (status === 'todo' || status === 'in-progress') ? 'done' : status,
+            ...(current?.note ? { note: current.note } : {}),
+            verification: { status: verification.status, results: verification.results, checkedAt: now },
+            updatedAt: now,
+          };
+        });
+      session.updatedAt = now;
+
+      await this.writeSession(session);
+      return session;
+    });
+  }
+
+  private async withLock<T>(id: string, action: () => Promise<T>): Promise<T> {
+    const previous = this.pendingWrites.get(id) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(action);
+    this.pendingWrites.set(id, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.pendingWrites.get(id) === current) {
+        this.pendingWrites.delete(id);
+      }
+    }
+  }
+
+  // Write to a temporary file first so readers never see a half-written session
+  private async writeSession(session: UpgradeSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const sessionPath = this.getSessionPath(session.id);
+    const temporaryPath = `${sessionPath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(temporaryPath, sessionPath);
+  }
+
+  private getSessionPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  // Ids end up in file names, so only accept what createSession generates
+  private isValidId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(id);
+  }
+}
+
+let sessionStore: ISessionStore | null = null;
+
+// Factory function to get the session store instance
+export function getSessionStore(): ISessionStore {
+  if (!sessionStore) {
+    sessionStore = new FileSessionStore(process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.data', 'sessions'));
+  }
+  return sessionStore;
+}
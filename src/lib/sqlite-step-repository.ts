@@ -0,0 +1,57 @@
+import { UpgradeStep, Framework, VersionRange } from '../types/upgrade-step';
+import { Version, compareVersions } from './version';
+import { getFramework } from './frameworks';
+import { UpgradeStepRepository } from './step-repository';
+import { StepDatabase, StepRow, getVersionKey, rowToStep } from './step-database';
+
+// SQLite implementation, the dataset can be edited at runtime without redeploying the JSON files.
+// Only published steps are served, drafts stay in the admin UI.
+export class SqliteUpgradeStepRepository extends UpgradeStepRepository {
+  constructor(private readonly db: StepDatabase) {
+    super();
+  }
+
+  // Every write sets updated_at; the row count catches deletions
+  async getDataVersion(): Promise<string> {
+    const { count, updated } = this.db.prepare(`
+      SELECT COUNT(*) AS count, MAX(updated_at) AS updated FROM upgrade_steps
+    `).get() as { count: number; updated: string | null };
+    return `${count}:${updated ?? ''}`;
+  }
+
+  protected async findSteps(framework: Framework, fromVersion: Version, toVersion: Version): Promise<UpgradeStep[]> {
+    const definition = getFramework(framework);
+    if (!definition) return [];
+
+    // The index narrows by release number, pre-release tags are compared afterwards
+    const rows = this.db.prepare(`
+      SELECT * FROM upgrade_steps
+      WHERE framework = ? AND status = 'published' AND to_key >= ? AND to_key <= ?
+      ORDER BY position
+    `).all(definition.id, getVersionKey(fromVersion), getVersionKey(toVersion)) as StepRow[];
+
+    return rows
+      .map(rowToStep)
+      .filter(step => compareVersions(step.to, fromVersion) > 0 && compareVersions(step.to, toVersion) <= 0);
+  }
+
+  protected async findVersionHops(framework: Framework): Promise<VersionRange[]> {
+    const definition = getFramework(framework);
+    if (!definition) return [];
+
+    return this.db.prepare(`
+      SELECT DISTINCT from_version AS "from", to_version AS "to" FROM upgrade_steps
+      WHERE framework = ? AND status = 'published'
+    `).all(definition.id) as VersionRange[];
+  }
+
+  protected async findAllSteps(framework: Framework): Promise<UpgradeStep[]> {
+    const definition = getFramework(framework);
+    if (!definition) return [];
+
+    const rows = this.db.prepare(`
+      SELECT * FROM upgrade_steps WHERE framework = ? AND status = 'published' ORDER BY position
+    `).all(definition.id) as StepRow[];
+    return rows.map(rowToStep);
+  }
+}
@@ -0,0 +1,154 @@
+import { Framework } from '../types/upgrade-step';
+import { PUBLICATION_STATUSES, PublicationStatus, StepSubmission, StoredUpgradeStep } from '../types/step-admin';
+import { LintIssue, lintStep } from './step-linter';
+import { getFramework } from './frameworks';
+import { StepDatabase, StepRow, getStepDatabase, insertStep, rowToStep, updateStepRow } from './step-database';
+
+export interface StepListFilter {
+  framework?: Framework;
+  status?: PublicationStatus;
+}
+
+// Authoring store behind the admin UI
+export interface IStepAdminStore {
+  listSteps(filter?: StepListFilter): Promise<StoredUpgradeStep[]>;
+  getStep(id: number): Promise<StoredUpgradeStep | null>;
+  createStep(submission: StepSubmission): Promise<StoredUpgradeStep>;
+  updateStep(id: number, submission: StepSubmission): Promise<StoredUpgradeStep | null>;
+  deleteStep(id: number): Promise<boolean>;
+}
+
+// SQLite implementation, shares its database with SqliteUpgradeStepRepository
+export class SqliteStepAdminStore implements IStepAdminStore {
+  constructor(private readonly db: StepDatabase) {}
+
+  async listSteps(filter: StepListFilter = {}): Promise<StoredUpgradeStep[]> {
+    const conditions: string[] = [];
+    const parameters: string[] = [];
+    if (filter.framework) {
+      conditions.push('framework = ?');
+      parameters.push(filter.framework);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      parameters.push(filter.status);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM upgrade_steps
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY framework, to_key, position
+    `).all(...parameters) as StepRow[];
+    return rows.map(toStoredStep);
+  }
+
+  async getStep(id: number): Promise<StoredUpgradeStep | null> {
+    const row = this.db.prepare('SELECT * FROM upgrade_steps WHERE id = ?').get(id) as StepRow | undefined;
+    return row ? toStoredStep(row) : null;
+  }
+
+  // New steps go to the end of their framework's data, like an entry appended to the JSON file
+  async createStep(submission: StepSubmission): Promise<StoredUpgradeStep> {
+    const id = this.db.transaction(() => {
+      const { position } = this.db.prepare(
+        'SELECT COALESCE(MAX(position) + 1, 0) AS position FROM upgrade_steps WHERE framework = ?'
+      ).get(submission.framework) as { position: number };
+      return insertStep(this.db, submission.framework, position, submission.step, submission.status);
+    })();
+    return (await this.getStep(id))!;
+  }
+
+  async updateStep(id: number, submission: StepSubmission): Promise<StoredUpgradeStep | null> {
+    if (!updateStepRow(this.db, id, submission.framework, submission.step, submission.status)) {
+      return null;
+    }
+    return this.getStep(id);
+  }
+
+  async deleteStep(id: number): Promise<boolean> {
+    return this.db.prepare('DELETE FROM upgrade_steps WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+function toStoredStep(row: StepRow): StoredUpgradeStep {
+  return {
+    id: row.id,
+    framework: row.framework,
+    status: row.status,
+    step: rowToStep(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const AUTHORING_DISABLED_ERROR = 'Step authoring needs the SQLite backend, set STEP_REPOSITORY=sqlite';
+
+// Edits only reach upgrade plans when the plans are served from the database
+export function isStepAuthoringEnabled(): boolean {
+  return process.env.STEP_REPOSITORY === 'sqlite';
+}
+
+// Check a save request from the admin UI. Steps are validated against the step schema and the
+// data linter's per-step rules, warnings don't block saving. Ids and dependencies are checked
+// against the framework's other stored steps, the dependencies of a published step against the
+// published ones; stepId is the row being edited, if any.
+export async function parseStepSubmission(
+  body: unknown,
+  stepId?: number
+): Promise<{ submission: StepSubmission; issues: LintIssue[] } | { error: string; issues?: LintIssue[] }> {
+  const { framework, status, step } = (body || {}) as Record<string, unknown>;
+
+  const frameworkDefinition = typeof framework === 'string' ? getFramework(framework) : undefined;
+  if (!frameworkDefinition) {
+    return { error: `Unknown framework: ${framework}` };
+  }
+
+  if (!PUBLICATION_STATUSES.includes(status as PublicationStatus)) {
+    return { error: `status must be one of: ${PUBLICATION_STATUSES.join(', ')}` };
+  }
+
+  const otherStoredSteps = (await getStepAdminStore().listSteps({ framework: frameworkDefinition.id }))
+    .filter(stored => stored.id !== stepId);
+  // Plans only serve published steps, so a published step can't depend on a draft
+  const issues = lintStep(step, {
+    framework: frameworkDefinition.id,
+    otherSteps: otherStoredSteps.map(stored => stored.step),
+    published: status === 'published',
+    publishedSteps: otherStoredSteps.filter(stored => stored.status === 'published').map(stored => stored.step),
+  });
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { error: 'The step is not valid', issues };
+  }
+
+  return {
+    submission: { framework: frameworkDefinition.id, status: status as PublicationStatus, step: step as StepSubmission['step'] },
+    issues,
+  };
+}
+
+// Published steps of the same framework that list the stored step in dependsOn. They would point at
+// a step plans no longer have if it were deleted, unpublished or given another id; next is the save
+// being made, if any.
+export async function findPublishedDependents(stored: StoredUpgradeStep, next?: StepSubmission): Promise<StoredUpgradeStep[]> {
+  const stepId = stored.step.id;
+  if (stored.status !== 'published' || !stepId) return [];
+  if (next && next.status === 'published' && next.framework === stored.framework && next.step.id === stepId) return [];
+
+  const publishedSteps = await getStepAdminStore().listSteps({ framework: stored.framework, status: 'published' });
+  return publishedSteps.filter(other => other.id !== stored.id && (other.step.dependsOn || []).includes(stepId));
+}
+
+export function formatDependentsError(dependents: StoredUpgradeStep[]): string {
+  const names = dependents.map(dependent => dependent.step.id || `#${dependent.id}`);
+  return `Published steps depend on this step: ${names.join(', ')}. Remove it from their dependsOn first.`;
+}
+
+let stepAdminStore: IStepAdminStore | null = null;
+
+// Factory function to get the admin store instance
+export function getStepAdminStore(): IStepAdminStore {
+  if (!stepAdminStore) {
+    stepAdminStore = new SqliteStepAdminStore(getStepDatabase());
+  }
+  return stepAdminStore;
+}
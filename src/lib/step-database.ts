@@ -0,0 +1,282 @@
+import Database from 'better-sqlite3';
+import { mkdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { StepSeverity, UpgradeStep } from '../types/upgrade-step';
+import { FrameworkDefinition } from '../types/framework';
+import { PublicationStatus } from '../types/step-admin';
+import { Version, parseVersion } from './version';
+import { FRAMEWORKS } from './frameworks';
+
+export type StepDatabase = Database.Database;
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Applied in order and recorded in schema_migrations; never edit a migration that has shipped, add a new one
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create upgrade_steps',
+    sql: `
+      CREATE TABLE upgrade_steps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        framework TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        instruction TEXT NOT NULL,
+        detailed_description TEXT NOT NULL,
+        from_version TEXT NOT NULL,
+        to_version TEXT NOT NULL,
+        from_key TEXT NOT NULL,
+        to_key TEXT NOT NULL,
+        step_type TEXT,
+        affected_file TEXT,
+        operations TEXT,
+        conditions TEXT
+      );
+      CREATE INDEX upgrade_steps_framework_to ON upgrade_steps (framework, to_key);
+      CREATE INDEX upgrade_steps_framework_position ON upgrade_steps (framework, position);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add publication status',
+    sql: `
+      ALTER TABLE upgrade_steps ADD COLUMN status TEXT NOT NULL DEFAULT 'published';
+      ALTER TABLE upgrade_steps ADD COLUMN created_at TEXT NOT NULL DEFAULT '';
+      ALTER TABLE upgrade_steps ADD COLUMN updated_at TEXT NOT NULL DEFAULT '';
+      UPDATE upgrade_steps SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now');
+      DROP INDEX upgrade_steps_framework_to;
+      CREATE INDEX upgrade_steps_framework_status_to ON upgrade_steps (framework, status, to_key);
+    `,
+  },
+  {
+    version: 3,
+    name: 'add severity, effort and production risk',
+    sql: `
+      ALTER TABLE upgrade_steps ADD COLUMN severity TEXT;
+      ALTER TABLE upgrade_steps ADD COLUMN effort_hours REAL;
+      ALTER TABLE upgrade_steps ADD COLUMN production_risk INTEGER;
+    `,
+  },
+  {
+    version: 4,
+    name: 'add step ids and dependencies',
+    sql: `
+      ALTER TABLE upgrade_steps ADD COLUMN step_id TEXT;
+      ALTER TABLE upgrade_steps ADD COLUMN depends_on TEXT;
+    `,
+  },
+  {
+    version: 5,
+    name: 'add rollback instructions',
+    sql: `
+      ALTER TABLE upgrade_steps ADD COLUMN rollback TEXT;
+      ALTER TABLE upgrade_steps ADD COLUMN irreversible INTEGER;
+    `,
+  },
+  {
+    version: 6,
+    name: 'add verification rules',
+    sql: `
+      ALTER TABLE upgrade_steps ADD COLUMN verification TEXT;
+    `,
+  },
+];
+
+export interface StepRow {
+  id: number;
+  framework: string;
+  position: number;
+  instruction: string;
+  detailed_description: string;
+  from_version: string;
+  to_version: string;
+  step_type: string | null;
+  affected_file: string | null;
+  operations: string | null;
+  conditions: string | null;
+  severity: StepSeverity | null;
+  effort_hours: number | null;
+  production_risk: number | null;
+  step_id: string | null; // The step's own id from the data, id is the row id
+  depends_on: string | null;
+  rollback: string | null;
+  irreversible: number | null;
+  verification: string | null;
+  status: PublicationStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// Open (and create) a step database, run migrateStepDatabase before querying it
+export function openStepDatabase(file: string): StepDatabase {
+  if (file !== ':memory:') {
+    mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  return db;
+}
+
+// Run the migrations the database hasn't seen yet, returns the versions that were applied
+export function migrateStepDatabase(db: StepDatabase): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db.prepare('SELECT version FROM schema_migrations').all().map(row => (row as { version: number }).version)
+  );
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  return MIGRATIONS
+    .filter(migration => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version)
+    .map(migration => {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      return migration.version;
+    });
+}
+
+// Replace the steps of the given frameworks with the contents of their JSON data files, as published
+// steps. Drafts and edits made in the admin UI for those frameworks are dropped.
+// Returns the number of steps loaded per framework id.
+export function seedStepsFromJson(
+  db: StepDatabase,
+  frameworks: FrameworkDefinition[] = FRAMEWORKS,
+  dataDirectory: string = path.join(process.cwd(), 'src', 'data')
+): Record<string, number> {
+  const datasets = frameworks.map(framework => ({
+    framework: framework.id,
+    steps: JSON.parse(readFileSync(path.join(dataDirectory, framework.dataSource), 'utf-8')) as UpgradeStep[],
+  }));
+
+  const remove = db.prepare('DELETE FROM upgrade_steps WHERE framework = ?');
+  const counts: Record<string, number> = {};
+
+  // All or nothing, a half-seeded database would serve partial plans
+  db.transaction(() => {
+    datasets.forEach(({ framework, steps }) => {
+      remove.run(framework);
+      steps.forEach((step, position) => insertStep(db, framework, position, step));
+      counts[framework] = steps.length;
+    });
+  })();
+
+  return counts;
+}
+
+export function insertStep(
+  db: StepDatabase,
+  framework: string,
+  position: number,
+  step: UpgradeStep,
+  status: PublicationStatus = 'published'
+): number {
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO upgrade_steps (
+      framework, position, instruction, detailed_description, from_version, to_version,
+      from_key, to_key, step_type, affected_file, operations, conditions, severity, effort_hours, production_risk,
+      step_id, depends_on, rollback, irreversible, verification, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(framework, position, ...getStepColumns(step), status, now, now);
+  return Number(result.lastInsertRowid);
+}
+
+// Replace the content of a stored step, keeping its position
+export function updateStepRow(db: StepDatabase, id: number, framework: string, step: UpgradeStep, status: PublicationStatus): boolean {
+  const result = db.prepare(`
+    UPDATE upgrade_steps SET
+      framework = ?, instruction = ?, detailed_description = ?, from_version = ?, to_version = ?,
+      from_key = ?, to_key = ?, step_type = ?, affected_file = ?, operations = ?, conditions = ?,
+      severity = ?, effort_hours = ?, production_risk = ?, step_id = ?, depends_on = ?,
+      rollback = ?, irreversible = ?, verification = ?, status = ?, updated_at = ?
+    WHERE id = ?
+  `).run(framework, ...getStepColumns(step), status, new Date().toISOString(), id);
+  return result.changes > 0;
+}
+
+// Step fields in column order: instruction through verification
+function getStepColumns(step: UpgradeStep): (string | number | null)[] {
+  return [
+    step.instruction,
+    step.detailedDescription,
+    step.from,
+    step.to,
+    getVersionKey(step.from),
+    getVersionKey(step.to),
+    step.stepType ?? null,
+    step.affectedFile ?? null,
+    step.operations ? JSON.stringify(step.operations) : null,
+    step.conditions ? JSON.stringify(step.conditions) : null,
+    step.severity ?? null,
+    step.effortHours ?? null,
+    step.productionRisk === undefined ? null : Number(step.productionRisk),
+    step.id ?? null,
+    step.dependsOn ? JSON.stringify(step.dependsOn) : null,
+    step.rollback ?? null,
+    step.irreversible === undefined ? null : Number(step.irreversible),
+    step.verification ? JSON.stringify(step.verification) : null,
+  ];
+}
+
+export function countSteps(db: StepDatabase): number {
+  return (db.prepare('SELECT COUNT(*) AS count FROM upgrade_steps').get() as { count: number }).count;
+}
+
+// Zero-padded major.minor.patch that sorts like the version in SQL. Pre-release tags are left out,
+// so range queries on it are inclusive and callers refine the result with compareVersions.
+export function getVersionKey(version: Version | string): string {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  return [parsed.major, parsed.minor, parsed.patch].map(part => String(part).padStart(5, '0')).join('.');
+}
+
+export function rowToStep(row: StepRow): UpgradeStep {
+  return {
+    ...(row.step_id ? { id: row.step_id } : {}),
+    instruction: row.instruction,
+    detailedDescription: row.detailed_description,
+    from: row.from_version,
+    to: row.to_version,
+    ...(row.depends_on ? { dependsOn: JSON.parse(row.depends_on) } : {}),
+    ...(row.step_type ? { stepType: row.step_type } : {}),
+    ...(row.affected_file ? { affectedFile: row.affected_file } : {}),
+    ...(row.severity ? { severity: row.severity } : {}),
+    ...(row.effort_hours !== null ? { effortHours: row.effort_hours } : {}),
+    ...(row.production_risk !== null ? { productionRisk: row.production_risk === 1 } : {}),
+    ...(row.rollback ? { rollback: row.rollback } : {}),
+    ...(row.irreversible !== null ? { irreversible: row.irreversible === 1 } : {}),
+    ...(row.operations ? { operations: JSON.parse(row.operations) } : {}),
+    ...(row.verification ? { verification: JSON.parse(row.verification) } : {}),
+    ...(row.conditions ? { conditions: JSON.parse(row.conditions) } : {}),
+  };
+}
+
+export function getStepDatabasePath(): string {
+  return process.env.STEP_DATABASE_PATH || path.join(process.cwd(), '.data', 'steps.db');
+}
+
+let stepDatabase: StepDatabase | null = null;
+
+// Shared database for the SQLite repository; a new database starts out with the bundled JSON data
+export function getStepDatabase(): StepDatabase {
+  if (!stepDatabase) {
+    stepDatabase = openStepDatabase(getStepDatabasePath());
+    migrateStepDatabase(stepDatabase);
+    if (countSteps(stepDatabase) === 0) {
+      seedStepsFromJson(stepDatabase);
+    }
+  }
+  return stepDatabase;
+}
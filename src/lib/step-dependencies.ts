@@ -0,0 +1,21 @@
+import { UpgradeStep } from '../types/upgrade-step';
+
+// Ids a step stands for: its own, or those of the steps merged into it
+export function getContainedStepIds(step: UpgradeStep): string[] {
+  const ids = [step.id, ...(step.sources || []).map(source => source.id)];
+  return ids.filter((id): id is string => !!id);
+}
+
+// For every step of a plan, the positions of the plan's steps it depends on. Dependencies on steps
+// outside the plan belong to an earlier upgrade and are left out.
+export function getBlockingSteps(steps: UpgradeStep[]): number[][] {
+  const positions = new Map<string, number>();
+  steps.forEach((step, index) => getContainedStepIds(step).forEach(id => positions.set(id, index)));
+
+  return steps.map((step, index) => {
+    const blocking = (step.dependsOn || [])
+      .map(id => positions.get(id))
+      .filter((position): position is number => position !== undefined && position !== index);
+    return [...new Set(blocking)].sort((a, b) => a - b);
+  });
+}
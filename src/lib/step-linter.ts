@@ -0,0 +1,385 @@
+import Ajv, { ErrorObject } from 'ajv';
+import stepSchema from '../data/upgrade-step.schema.json';
+import compatibilitySchema from '../data/compatibility.schema.json';
+import { Framework, UpgradeStep, VersionRange } from '../types/upgrade-step';
+import { CompatibilityEntry } from '../types/compatibility';
+import { FrameworkDefinition } from '../types/framework';
+import { UpgradeOperation } from '../types/codemod';
+import { compareVersions, formatVersion, getRangeMinimum, isValidVersion, maxVersion, minVersion } from './version';
+import { buildVersionGraph, findUpgradePath, formatVersionRange } from './upgrade-path';
+import { getOperationFile } from './codemods';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+  stepIndex?: number; // Position of the step in the data file, when the issue is about one step
+}
+
+export interface LintOptions {
+  // Version range the dataset is expected to cover without gaps
+  expectedRange?: { from: string; to: string };
+  // Framework the dataset belongs to, its step ids have to start with its id
+  framework?: Framework;
+}
+
+// What a step edited on its own is checked against: its framework's other steps
+export interface StepLintContext {
+  framework?: Framework;
+  otherSteps?: UpgradeStep[];
+  // Whether the step is served in plans: its dependencies then have to be served too
+  published?: boolean;
+  publishedSteps?: UpgradeStep[]; // The served ones among otherSteps
+}
+
+// Gaps in the selectable versions that steps still have to be written for. Plans for them warn about
+// the missing steps; lint:steps only fails on them with --max-warnings 0.
+export const KNOWN_VERSION_GAPS: Partial<Record<Framework, VersionRange[]>> = {
+  angular: [{ from: '21.7', to: '22.5' }],
+};
+
+const ajv = new Ajv({ allErrors: true, discriminator: true });
+const validateSchema = ajv.compile(stepSchema);
+const validateCompatibilitySchema = ajv.compile(compatibilitySchema);
+
+export const KNOWN_STEP_TYPES: string[] = stepSchema.definitions.stepType.enum;
+
+// Validate the raw JSON against the step schema
+export function validateStepSchema(data: unknown): LintIssue[] {
+  if (validateSchema(data)) return [];
+
+  return (validateSchema.errors || []).map(error => ({
+    severity: 'error',
+    rule: 'schema',
+    message: formatSchemaError(error),
+    stepIndex: getStepIndex(error.instancePath),
+  }));
+}
+
+// Schema validation plus the checks a schema can't express
+export function lintUpgradeSteps(data: unknown, options: LintOptions = {}): LintIssue[] {
+  const schemaIssues = validateStepSchema(data);
+  if (!Array.isArray(data)) return schemaIssues;
+
+  // Semantic checks only run on steps that are shaped well enough to inspect
+  const checkableSteps = (data as unknown[])
+    .map((step, index) => ({ step: step as UpgradeStep, index }))
+    .filter(({ step }) => isInspectable(step));
+
+  return [
+    ...schemaIssues,
+    ...checkableSteps.flatMap(({ step, index }) => [
+      ...checkVersionOrder(step, index),
+      ...checkCodeFences(step, index),
+      ...checkFilePaths(step, index),
+      ...checkVerificationPatterns(step, index),
+    ]),
+    ...checkDuplicateInstructions(checkableSteps),
+    ...checkStepIds(checkableSteps, options.framework),
+    ...checkMissingIds(checkableSteps),
+    ...checkDependencies(checkableSteps),
+    ...checkVersionChain(checkableSteps.map(({ step }) => step), options.expectedRange, options.framework),
+  ];
+}
+
+// Checks for a single step edited on its own, dataset-wide rules like version gaps don't apply.
+// Ids and dependencies are checked against the other steps when the context has them.
+export function lintStep(step: unknown, context: StepLintContext = {}): LintIssue[] {
+  const schemaIssues = validateStepSchema([step]);
+  if (schemaIssues.length > 0 || !isInspectable(step as UpgradeStep)) {
+    return schemaIssues.map(({ severity, rule, message }) => ({ severity, rule, message }));
+  }
+
+  const otherSteps = (context.otherSteps || []).map((otherStep, index) => ({ step: otherStep, index }));
+  const stepIndex = otherSteps.length;
+  const steps = [...otherSteps, { step: step as UpgradeStep, index: stepIndex }];
+  const issues = [
+    ...checkVersionOrder(step as UpgradeStep, stepIndex),
+    ...checkCodeFences(step as UpgradeStep, stepIndex),
+    ...checkFilePaths(step as UpgradeStep, stepIndex),
+    ...checkVerificationPatterns(step as UpgradeStep, stepIndex),
+    ...checkStepIds(steps, context.framework),
+    ...(context.published
+      ? checkDependencies([...(context.publishedSteps || []).map(otherStep => ({ step: otherStep, index: -1 })), steps[stepIndex]], 'published step')
+      : checkDependencies(steps)),
+  ];
+
+  return issues
+    .filter(issue => issue.stepIndex === stepIndex)
+    .map(({ severity, rule, message }) => ({ severity, rule, message }));
+}
+
+// Validate the compatibility matrix against the schema and the framework registry: every registered
+// version needs an entry, and the ranges have to be readable by the package.json check
+export function lintCompatibility(data: unknown, frameworks: FrameworkDefinition[]): LintIssue[] {
+  if (!validateCompatibilitySchema(data)) {
+    return (validateCompatibilitySchema.errors || []).map(error => ({
+      severity: 'error',
+      rule: 'schema',
+      message: `${error.instancePath.replace(/^\//, '').replace(/\//g, '.') || 'value'} ${error.message}`,
+    }));
+  }
+
+  const matrix = data as Record<Framework, CompatibilityEntry[]>;
+  const issues: LintIssue[] = Object.keys(matrix)
+    .filter(id => !frameworks.some(framework => framework.id === id))
+    .map(id => ({ severity: 'error', rule: 'unknown-framework', message: `${id} is not in the framework registry` }));
+
+  frameworks.forEach(framework => {
+    const entries = matrix[framework.id] || [];
+    framework.versions
+      .filter(version => !entries.some(entry => compareVersions(entry.version, version) === 0))
+      .forEach(version => issues.push({
+        severity: 'warning',
+        rule: 'missing-compatibility',
+        message: `${framework.id} ${version} has no compatibility entry`,
+      }));
+
+    entries.forEach((entry, index) => {
+      if (!framework.versions.some(version => compareVersions(entry.version, version) === 0)) {
+        issues.push({ severity: 'error', rule: 'unknown-version', message: `${framework.id} ${entry.version} is not a registered version` });
+      }
+      if (index > 0 && compareVersions(entries[index - 1].version, entry.version) >= 0) {
+        issues.push({ severity: 'error', rule: 'version-order', message: `${framework.id} ${entry.version} is out of order, entries go oldest first` });
+      }
+      Object.entries({ ...entry.packages, ...(entry.node ? { node: entry.node } : {}) })
+        .filter(([, range]) => !getRangeMinimum(range))
+        .forEach(([name, range]) => issues.push({
+          severity: 'error',
+          rule: 'invalid-range',
+          message: `${framework.id} ${entry.version}: ${name} "${range}" is not a version range`,
+        }));
+    });
+  });
+
+  return issues;
+}
+
+function isInspectable(step: UpgradeStep): boolean {
+  return !!step && typeof step === 'object'
+    && typeof step.instruction === 'string'
+    && typeof step.detailedDescription === 'string'
+    && typeof step.from === 'string' && isValidVersion(step.from)
+    && typeof step.to === 'string' && isValidVersion(step.to)
+    && (step.affectedFile === undefined || typeof step.affectedFile === 'string')
+    && (step.operations === undefined || (Array.isArray(step.operations) && step.operations.every(isInspectableOperation)))
+    && (step.verification === undefined || (Array.isArray(step.verification) && step.verification.every(rule => !!rule && typeof rule === 'object')));
+}
+
+function isInspectableOperation(operation: UpgradeOperation): boolean {
+  return !!operation && typeof operation === 'object'
+    && ('file' in operation ? typeof operation.file === 'string' || operation.file === undefined : true);
+}
+
+function checkVersionOrder(step: UpgradeStep, index: number): LintIssue[] {
+  if (compareVersions(step.from, step.to) < 0) return [];
+  return [{
+    severity: 'error',
+    rule: 'version-order',
+    message: `"from" (${step.from}) must be lower than "to" (${step.to})`,
+    stepIndex: index,
+  }];
+}
+
+function checkCodeFences(step: UpgradeStep, index: number): LintIssue[] {
+  const fences = step.detailedDescription.split('\n').filter(line => line.trim().startsWith('```'));
+  if (fences.length % 2 === 0) return [];
+  return [{
+    severity: 'error',
+    rule: 'code-fence',
+    message: 'detailedDescription has an unbalanced ``` code fence',
+    stepIndex: index,
+  }];
+}
+
+function checkFilePaths(step: UpgradeStep, index: number): LintIssue[] {
+  const paths = [
+    ...(step.affectedFile ? [{ field: 'affectedFile', path: step.affectedFile }] : []),
+    ...(step.operations || []).map((operation, operationIndex) => ({
+      field: `operations[${operationIndex}].file`,
+      path: getOperationFile(operation),
+    })),
+  ];
+
+  return paths
+    .filter(({ path }) => !isRelativeFilePath(path))
+    .map(({ field, path }) => ({
+      severity: 'error',
+      rule: 'file-path',
+      message: `${field} "${path}" doesn't look like a project-relative file path`,
+      stepIndex: index,
+    }));
+}
+
+// A file-contains rule whose pattern doesn't compile would never pass
+function checkVerificationPatterns(step: UpgradeStep, index: number): LintIssue[] {
+  return (step.verification || []).flatMap((rule, ruleIndex) => {
+    if (rule.type !== 'file-contains' || typeof rule.pattern !== 'string') return [];
+    try {
+      new RegExp(rule.pattern, rule.flags);
+      return [];
+    } catch (error) {
+      return [{
+        severity: 'error',
+        rule: 'verification-pattern',
+        message: `verification[${ruleIndex}].pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+        stepIndex: index,
+      }];
+    }
+  });
+}
+
+// Relative, forward slashes, no spaces or parent references, globs allowed
+export function isRelativeFilePath(path: string): boolean {
+  if (!path || /\s|\\/.test(path) || path.startsWith('/') || path.endsWith('/') || /^[A-Za-z]:/.test(path)) {
+    return false;
+  }
+  return path.split('/').every(segment => segment.length > 0 && segment !== '..' && segment !== '.');
+}
+
+function checkDuplicateInstructions(steps: { step: UpgradeStep; index: number }[]): LintIssue[] {
+  const seen = new Map<string, number>();
+  const issues: LintIssue[] = [];
+
+  steps.forEach(({ step, index }) => {
+    const key = `${formatVersion(step.from)}→${formatVersion(step.to)}:${step.instruction.trim().toLowerCase()}`;
+    const firstIndex = seen.get(key);
+    if (firstIndex === undefined) {
+      seen.set(key, index);
+      return;
+    }
+    issues.push({
+      severity: 'error',
+      rule: 'duplicate-instruction',
+      message: `Duplicate instruction "${step.instruction}" for ${step.from} → ${step.to} (first defined by step ${firstIndex})`,
+      stepIndex: index,
+    });
+  });
+
+  return issues;
+}
+
+function checkStepIds(steps: { step: UpgradeStep; index: number }[], framework?: Framework): LintIssue[] {
+  const seen = new Map<string, number>();
+  const issues: LintIssue[] = [];
+
+  steps.forEach(({ step, index }) => {
+    if (!step.id) return;
+    if (framework && !step.id.startsWith(`${framework}-`)) {
+      issues.push({
+        severity: 'error',
+        rule: 'step-id',
+        message: `id "${step.id}" must start with "${framework}-"`,
+        stepIndex: index,
+      });
+    }
+
+    const firstIndex = seen.get(step.id);
+    if (firstIndex === undefined) {
+      seen.set(step.id, index);
+      return;
+    }
+    issues.push({
+      severity: 'error',
+      rule: 'duplicate-id',
+      message: `Duplicate id "${step.id}" (first used by step ${firstIndex})`,
+      stepIndex: index,
+    });
+  });
+
+  return issues;
+}
+
+// Other steps can only depend on a step that has an id
+function checkMissingIds(steps: { step: UpgradeStep; index: number }[]): LintIssue[] {
+  return steps
+    .filter(({ step }) => !step.id)
+    .map(({ index }) => ({
+      severity: 'warning',
+      rule: 'missing-id',
+      message: 'Step has no id',
+      stepIndex: index,
+    }));
+}
+
+// Every dependency has to name a step of the dataset, and following them must never lead back
+function checkDependencies(steps: { step: UpgradeStep; index: number }[], target = 'step'): LintIssue[] {
+  const ids = new Set(steps.map(({ step }) => step.id).filter(Boolean));
+  const dependencies = new Map(steps.filter(({ step }) => step.id).map(({ step }) => [step.id!, step.dependsOn || []]));
+  const issues: LintIssue[] = [];
+
+  steps.forEach(({ step, index }) => {
+    (step.dependsOn || []).filter(id => !ids.has(id)).forEach(id => issues.push({
+      severity: 'error',
+      rule: 'dangling-dependency',
+      message: `dependsOn "${id}" doesn't match the id of any ${target}`,
+      stepIndex: index,
+    }));
+
+    const cycle = step.id ? findDependencyCycle(step.id, dependencies) : null;
+    if (cycle) {
+      issues.push({
+        severity: 'error',
+        rule: 'dependency-cycle',
+        message: `Dependency cycle: ${cycle.join(' → ')}`,
+        stepIndex: index,
+      });
+    }
+  });
+
+  return issues;
+}
+
+// Path of ids from the start back to itself, if there is one
+function findDependencyCycle(start: string, dependencies: Map<string, string[]>): string[] | null {
+  const visited = new Set<string>();
+  const visit = (id: string, path: string[]): string[] | null => {
+    for (const dependency of dependencies.get(id) || []) {
+      if (dependency === start) return [...path, dependency];
+      if (visited.has(dependency)) continue;
+      visited.add(dependency);
+      const cycle = visit(dependency, [...path, dependency]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return visit(start, [start]);
+}
+
+// Route through the dataset's version graph and report every stretch no step covers. A gap leaves
+// part of the selectable range without steps, so it is an error unless it is a known one.
+function checkVersionChain(steps: UpgradeStep[], expectedRange?: { from: string; to: string }, framework?: Framework): LintIssue[] {
+  if (steps.length === 0) return [];
+
+  const start = expectedRange?.from || minVersion(steps.map(step => step.from))!;
+  const end = expectedRange?.to || maxVersion(steps.map(step => step.to))!;
+  const { gaps } = findUpgradePath(buildVersionGraph(steps), start, end);
+  const knownGaps = (framework && KNOWN_VERSION_GAPS[framework]) || [];
+
+  return gaps.map(gap => {
+    const known = knownGaps.some(knownGap => compareVersions(knownGap.from, gap.from) === 0 && compareVersions(knownGap.to, gap.to) === 0);
+    return {
+      severity: known ? 'warning' : 'error',
+      rule: 'version-gap',
+      message: known ? `No steps cover ${formatVersionRange(gap)} yet (known gap)` : `No steps cover ${formatVersionRange(gap)}`,
+    };
+  });
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const location = error.instancePath.replace(/^\/\d+/, '').replace(/^\//, '').replace(/\//g, '.');
+  if (error.keyword === 'enum') {
+    return `${location || 'value'} must be one of: ${(error.params as { allowedValues: string[] }).allowedValues.join(', ')}`;
+  }
+  if (error.keyword === 'additionalProperties') {
+    return `${location ? `${location}: ` : ''}unknown property "${(error.params as { additionalProperty: string }).additionalProperty}"`;
+  }
+  return `${location || 'value'} ${error.message}`;
+}
+
+function getStepIndex(instancePath: string): number | undefined {
+  const match = instancePath.match(/^\/(\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,112 @@
+import { UpgradeStep } from '../types/upgrade-step';
+import { StepProgress } from '../types/upgrade-session';
+import { STEP_TYPES, getStepTypeLabel } from './step-types';
+import { formatVersionRange } from './upgrade-path';
+import { compareVersions } from './version';
+
+// How the results list shows a plan; the user's choice is kept between visits
+export type StepListMode = 'cards' | 'table';
+export type StepGrouping = 'none' | 'hop' | 'type' | 'file';
+export type CompletionFilter = 'all' | 'open' | 'finished';
+
+export const STEP_LIST_MODES: StepListMode[] = ['cards', 'table'];
+export const STEP_GROUPINGS: StepGrouping[] = ['none', 'hop', 'type', 'file'];
+
+export interface StepFilters {
+  stepType: string; // Step type label, empty for all types
+  file: string; // affectedFile, empty for all files
+  completion: CompletionFilter; // Only used for checklists
+}
+
+export const NO_STEP_FILTERS: StepFilters = { stepType: '', file: '', completion: 'all' };
+
+// Steps are referred to by their index in the plan, which is what progress is keyed by
+export interface StepGroup {
+  key: string;
+  label: string;
+  stepIndexes: number[];
+}
+
+const NO_FILE_LABEL = 'No specific file';
+
+// Done and skipped both count as finished checklist items
+export function isFinished(progress?: StepProgress): boolean {
+  return progress?.status === 'done' || progress?.status === 'skipped';
+}
+
+// The step types and files a plan has, in the order the filters list them
+export function getFilterOptions(steps: UpgradeStep[]): { stepTypes: string[]; files: string[] } {
+  const typeOrder = STEP_TYPES.map(stepType => getStepTypeLabel(stepType));
+  const stepTypes = [...new Set(steps.map(step => getStepTypeLabel(step.stepType)))]
+    .sort((a, b) => getOrder(typeOrder, a) - getOrder(typeOrder, b));
+  const files = [...new Set(steps.flatMap(step => (step.affectedFile ? [step.affectedFile] : [])))].sort();
+  return { stepTypes, files };
+}
+
+// A filter value the plan doesn't have, e.g. after loading another plan, doesn't filter anything out
+export function filterStepIndexes(
+  steps: UpgradeStep[],
+  stepIndexes: number[],
+  filters: StepFilters,
+  progress?: Record<string, StepProgress>
+): number[] {
+  const { stepTypes, files } = getFilterOptions(steps);
+  const stepType = stepTypes.includes(filters.stepType) ? filters.stepType : '';
+  const file = files.includes(filters.file) ? filters.file : '';
+
+  return stepIndexes.filter(index => {
+    const step = steps[index];
+    if (stepType && getStepTypeLabel(step.stepType) !== stepType) return false;
+    if (file && step.affectedFile !== file) return false;
+    if (progress && filters.completion !== 'all') {
+      return isFinished(progress[index]) === (filters.completion === 'finished');
+    }
+    return true;
+  });
+}
+
+// Groups keep the plan order of their steps; hops go in the direction of the plan (oldest first
+// for an upgrade), types in the usual plan order and files alphabetically, with steps that don't
+// name a file last
+export function groupStepIndexes(steps: UpgradeStep[], stepIndexes: number[], grouping: StepGrouping): StepGroup[] {
+  if (grouping === 'none') {
+    return [{ key: 'all', label: 'All steps', stepIndexes }];
+  }
+
+  const getLabel = (step: UpgradeStep): string => {
+    if (grouping === 'hop') return formatVersionRange(step);
+    if (grouping === 'type') return getStepTypeLabel(step.stepType);
+    return step.affectedFile || NO_FILE_LABEL;
+  };
+
+  const groups = new Map<string, StepGroup>();
+  const firstSteps = new Map<string, UpgradeStep>();
+  stepIndexes.forEach(index => {
+    const label = getLabel(steps[index]);
+    if (!groups.has(label)) {
+      groups.set(label, { key: `${grouping}:${label}`, label, stepIndexes: [] });
+      firstSteps.set(label, steps[index]);
+    }
+    groups.get(label)!.stepIndexes.push(index);
+  });
+
+  const typeOrder = STEP_TYPES.map(stepType => getStepTypeLabel(stepType));
+  return [...groups.values()].sort((a, b) => {
+    if (grouping === 'hop') {
+      const stepA = firstSteps.get(a.label)!;
+      const stepB = firstSteps.get(b.label)!;
+      const direction = compareVersions(stepA.from, stepA.to) > 0 ? -1 : 1;
+      return direction * (compareVersions(stepA.from, stepB.from) || compareVersions(stepA.to, stepB.to));
+    }
+    if (grouping === 'type') {
+      return getOrder(typeOrder, a.label) - getOrder(typeOrder, b.label);
+    }
+    return Number(a.label === NO_FILE_LABEL) - Number(b.label === NO_FILE_LABEL) || a.label.localeCompare(b.label);
+  });
+}
+
+// Labels that aren't in the order, like General, go last
+function getOrder(order: string[], label: string): number {
+  const index = order.indexOf(label);
+  return index === -1 ? order.length : index;
+}
@@ -0,0 +1,553 @@
+import crypto from 'crypto';
+import type { IUpgradeStepRepository } from './data-layer';
+import { UpgradeStep, Framework, UpgradePath, ConsolidationMode, StepSource, UpgradeStepQuery, VersionRange, STEP_SEVERITIES } from '../types/upgrade-step';
+import { Version, compareVersions, formatVersion, maxVersion, minVersion } from './version';
+import { buildVersionGraph, findUpgradePath, reverseUpgradePath } from './upgrade-path';
+import { getUnmetConditions } from './project-features';
+import { getBlockingSteps, getContainedStepIds } from './step-dependencies';
+import { FRAMEWORKS, getFramework } from './frameworks';
+import { buildPackageUpdateStep, getRequiredPackageNames } from './compatibility';
+import { buildRollbackSteps } from './rollback-plan';
+import { PackageVersionRule, VerificationRule } from '../types/verification';
+import { PackageVersionOperation } from '../types/codemod';
+
+// Plan logic shared by every backend; subclasses only decide how steps are stored and queried
+export abstract class UpgradeStepRepository implements IUpgradeStepRepository {
+  // Steps needed for the upgrade: the ones that land after fromVersion and no later than toVersion,
+  // so a project on 21.7.1 still gets the 21.7 → 22.0 hop
+  protected abstract findSteps(framework: Framework, fromVersion: Version, toVersion: Version): Promise<UpgradeStep[]>;
+
+  // Every from → to hop the framework has steps for
+  protected abstract findVersionHops(framework: Framework): Promise<VersionRange[]>;
+
+  // All of the framework's steps, in data order
+  protected abstract findAllSteps(framework: Framework): Promise<UpgradeStep[]>;
+
+  abstract getDataVersion(): Promise<string>;
+
+  async getStep(id: string): Promise<UpgradeStep | null> {
+    const framework = getStepFramework(id);
+    if (!framework) return null;
+
+    const steps = await this.getAllSteps(framework.id);
+    return steps.find(step => step.id === id) || null;
+  }
+
+  async getAllSteps(framework: Framework): Promise<UpgradeStep[]> {
+    const steps = await this.findAllSteps(framework);
+    return steps.map(step => withStepId(framework, step));
+  }
+
+  async getUpgradeSteps(
+    framework: Framework,
+    fromVersion: Version,
+    toVersion: Version,
+    query: UpgradeStepQuery = {}
+  ): Promise<UpgradeStep[]> {
+    // A lower target is a rollback: the upgrade's own steps, one by one, undone in reverse
+    if (compareVersions(fromVersion, toVersion) > 0) {
+      const upgradeSteps = await this.getUpgradeSteps(framework, toVersion, fromVersion, { ...query, consolidate: 'none' });
+      const rollbackSteps = buildRollbackSteps(getFramework(framework), upgradeSteps, fromVersion, toVersion);
+      // The reversed dependencies decide first, then the reverse order of the upgrade
+      return this.sortSteps(rollbackSteps, (a, b) => rollbackSteps.indexOf(a) - rollbackSteps.indexOf(b));
+    }
+
+    const relevantSteps = (await this.findSteps(framework, fromVersion, toVersion)).map(step => withStepId(framework, step));
+
+    // Conditional steps stay unmerged so their conditions remain visible, and the ones the
+    // questionnaire answers rule out are kept as not applicable
+    const unconditionalSteps = relevantSteps.filter(step => !step.conditions);
+    const conditionalSteps = relevantSteps
+      .filter(step => step.conditions)
+      .map(step => this.annotateConditionalStep(step, query));
+
+    // Consolidate similar steps (e.g., package updates across versions)
+    const consolidatedSteps = [
+      ...this.consolidateSimilarSteps(unconditionalSteps, framework, fromVersion, toVersion, query.consolidate || 'full'),
+      ...conditionalSteps,
+    ];
+    
+    return this.sortSteps(consolidatedSteps);
+  }
+
+  // Steps come after the steps they depend on. Among the steps that are ready the step type
+  // priority decides, then the from version, unless another order is given. A dependency cycle,
+  // which the data linter reports, is broken by taking the highest priority step.
+  private sortSteps(
+    steps: UpgradeStep[],
+    compare: (a: UpgradeStep, b: UpgradeStep) => number = (a, b) => this.compareStepPriority(a, b)
+  ): UpgradeStep[] {
+    const blocking = getBlockingSteps(steps);
+    const remaining = steps
+      .map((step, index) => index)
+      .sort((a, b) => compare(steps[a], steps[b]));
+    const placed = new Set<number>();
+
+    while (remaining.length > 0) {
+      const ready = remaining.findIndex(index => blocking[index].every(position => placed.has(position)));
+      const [next] = remaining.splice(Math.max(ready, 0), 1);
+      placed.add(next);
+    }
+
+    return [...placed].map(index => steps[index]);
+  }
+
+  private compareStepPriority(a: UpgradeStep, b: UpgradeStep): number {
+    const typePriority = this.getStepTypePriority(a.stepType) - this.getStepTypePriority(b.stepType);
+    if (typePriority !== 0) return typePriority;
+
+    return compareVersions(a.from, b.from) || compareVersions(a.to, b.to);
+  }
+
+  async getUpgradePath(framework: Framework, fromVersion: Version, toVersion: Version): Promise<UpgradePath> {
+    const hops = await this.findVersionHops(framework);
+    if (compareVersions(fromVersion, toVersion) > 0) {
+      return reverseUpgradePath(findUpgradePath(buildVersionGraph(hops), toVersion, fromVersion));
+    }
+    return findUpgradePath(buildVersionGraph(hops), fromVersion, toVersion);
+  }
+
+  private annotateConditionalStep(step: UpgradeStep, query: UpgradeStepQuery): UpgradeStep {
+    const unmetConditions = query.features ? getUnmetConditions(step.conditions, query.features) : [];
+    if (unmetConditions.length === 0) return step;
+    return { ...step, applicable: false, notApplicableReason: `Only for: ${unmetConditions.join(', ')}` };
+  }
+
+  private consolidateSimilarSteps(
+    steps: UpgradeStep[],
+    framework: Framework,
+    fromVersion: Version,
+    targetVersion: Version,
+    mode: ConsolidationMode
+  ): UpgradeStep[] {
+    // First consolidate by step type (existing logic)
+    const typeConsolidatedSteps = mode === 'type' || mode === 'full'
+      ? this.consolidateByType(steps, framework, fromVersion, targetVersion)
+      : [...steps];
+    
+    // Then consolidate by affected file to avoid overlapping file updates
+    const fileConsolidatedSteps = mode === 'file' || mode === 'full'
+      ? this.consolidateByAffectedFile(typeConsolidatedSteps)
+      : typeConsolidatedSteps;
+    
+    return fileConsolidatedSteps;
+  }
+
+  private consolidateByType(steps: UpgradeStep[], framework: Framework, fromVersion: Version, targetVersion: Version): UpgradeStep[] {
+    const stepsByType = new Map<string, UpgradeStep[]>();
+    const nonConsolidatedSteps: UpgradeStep[] = [];
+
+    // Group steps by type
+    steps.forEach(step => {
+      if (step.stepType && this.shouldConsolidate(step.stepType)) {
+        if (!stepsByType.has(step.stepType)) {
+          stepsByType.set(step.stepType, []);
+        }
+        stepsByType.get(step.stepType)!.push(step);
+      } else {
+        nonConsolidatedSteps.push(step);
+      }
+    });
+
+    // The compatibility data names every package the target needs; without it the latest hop's
+    // step already names the highest version
+    const frameworkDefinition = getFramework(framework);
+    const generated = frameworkDefinition && stepsByType.has('package-update')
+      ? buildPackageUpdateStep(frameworkDefinition, fromVersion, targetVersion)
+      : null;
+    // Next to the generated step the hops' dependency steps would pin older versions of the same
+    // packages, so they are folded into it
+    const dependencySteps = generated ? stepsByType.get('dependencies') || [] : [];
+
+    // Consolidate steps of the same type
+    const consolidatedSteps: UpgradeStep[] = [];
+    stepsByType.forEach((typeSteps, stepType) => {
+      if (stepType === 'package-update') {
+        // For package updates, show only the final target version
+        const consolidated = this.consolidatePackageUpdates(typeSteps, dependencySteps, framework, targetVersion, generated);
+        if (consolidated) {
+          consolidatedSteps.push(consolidated);
+        }
+      } else if (stepType === 'dependencies' && generated) {
+        // Already part of the package update
+      } else {
+        // For other step types, include all steps but remove duplicates
+        const uniqueSteps = this.removeDuplicateInstructions(typeSteps);
+        consolidatedSteps.push(...uniqueSteps);
+      }
+    });
+
+    return [...consolidatedSteps, ...nonConsolidatedSteps];
+  }
+
+  private consolidateByAffectedFile(steps: UpgradeStep[]): UpgradeStep[] {
+    const stepsByFile = new Map<string, UpgradeStep[]>();
+    const stepsWithoutFiles: UpgradeStep[] = [];
+
+    // Group steps by affected file
+    steps.forEach(step => {
+      if (step.affectedFile) {
+        if (!stepsByFile.has(step.affectedFile)) {
+          stepsByFile.set(step.affectedFile, []);
+        }
+        stepsByFile.get(step.affectedFile)!.push(step);
+      } else {
+        stepsWithoutFiles.push(step);
+      }
+    });
+
+    // Consolidate steps that affect the same file
+    const consolidatedSteps: UpgradeStep[] = [];
+    stepsByFile.forEach((fileSteps, fileName) => {
+      if (fileSteps.length === 1) {
+        // Only one step affects this file, no consolidation needed
+        consolidatedSteps.push(fileSteps[0]);
+      } else {
+        // Multiple steps affect the same file, consolidate them
+        const consolidated = this.consolidateFileSteps(fileSteps, fileName);
+        if (consolidated) {
+          consolidatedSteps.push(consolidated);
+        }
+      }
+    });
+
+    return [...consolidatedSteps, ...stepsWithoutFiles];
+  }
+
+  private consolidateFileSteps(fileSteps: UpgradeStep[], fileName: string): UpgradeStep | null {
+    if (fileSteps.length === 0) return null;
+
+    // Sort by version to maintain logical order
+    const sortedSteps = fileSteps.sort((a, b) => compareVersions(a.from, b.from));
+    const firstStep = sortedSteps[0];
+
+    // Create consolidated instruction
+    const uniqueInstructions = this.getUniqueInstructions(sortedSteps);
+    const consolidatedInstruction = this.createConsolidatedInstruction(uniqueInstructions, fileName);
+
+    // Combine detailed descriptions without overlap
+    const consolidatedDescription = this.mergeDetailedDescriptions(sortedSteps);
+
+    return {
+      instruction: consolidatedInstruction,
+      detailedDescription: consolidatedDescription,
+      from: firstStep.from,
+      // The step reaching furthest isn't always the one starting last, e.g. a generated package update
+      to: maxVersion(sortedSteps.map(step => step.to))!,
+      stepType: this.getMostImportantStepType(sortedSteps),
+      affectedFile: fileName,
+      ...this.mergeEstimates(sortedSteps, 'sum'),
+      ...this.mergeDependencies(sortedSteps),
+      ...this.mergeRollback(sortedSteps),
+      operations: this.mergeOperations(sortedSteps),
+      verification: this.mergeVerification(sortedSteps),
+      sources: this.mergeSources(sortedSteps)
+    };
+  }
+
+  private getUniqueInstructions(steps: UpgradeStep[]): string[] {
+    const instructions = new Set<string>();
+    steps.forEach(step => {
+      // Remove version-specific information to get the base instruction
+      const baseInstruction = step.instruction
+        .replace(/to \d+\.\d+(\.\d+)?/gi, '')
+        .replace(/version \d+\.\d+(\.\d+)?/gi, '')
+        .replace(/\d+\.\d+(\.\d+)?/g, '')
+        .trim();
+      
+      if (baseInstruction) {
+        instructions.add(baseInstruction);
+      }
+    });
+    return Array.from(instructions);
+  }
+
+  private createConsolidatedInstruction(instructions: string[], fileName: string): string {
+    if (instructions.length === 1) {
+      return `Update ${fileName} configuration`;
+    }
+    
+    // For multiple instructions affecting the same file
+    return `Update ${fileName} with multiple configuration changes`;
+  }
+
+  // One section per original step; paragraphs and code blocks an earlier step already had are left out
+  private mergeDetailedDescriptions(steps: UpgradeStep[]): string {
+    const seenBlocks = new Set<string>();
+    const sections: string[] = [];
+
+    steps.forEach(step => {
+      const blocks = this.splitMarkdownBlocks(step.detailedDescription).filter(block => {
+        const key = block.replace(/\s+/g, ' ').trim().toLowerCase();
+        if (seenBlocks.has(key)) return false;
+        seenBlocks.add(key);
+        return true;
+      });
+
+      if (blocks.length > 0) {
+        sections.push([`#### ${step.instruction} (${step.from} → ${step.to})`, ...blocks].join('\n\n'));
+      }
+    });
+
+    return sections.join('\n\n');
+  }
+
+  // Split on blank lines, keeping fenced code blocks whole
+  private splitMarkdownBlocks(description: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let inFence = false;
+
+    description.split('\n').forEach(line => {
+      if (line.trim().startsWith('```')) {
+        inFence = !inFence;
+      }
+      if (!inFence && line.trim().length === 0) {
+        if (current.length > 0) blocks.push(current.join('\n'));
+        current = [];
+      } else {
+        current.push(line);
+      }
+    });
+    if (current.length > 0) blocks.push(current.join('\n'));
+
+    return blocks;
+  }
+
+  private getMostImportantStepType(steps: UpgradeStep[]): string {
+    const typePriority: Record<string, number> = {
+      'package-update': 1,
+      'dependencies': 2,
+      'configuration': 3,
+      'code-update': 4,
+      'testing': 5,
+      'deployment': 6
+    };
+
+    let mostImportantType = '';
+    let highestPriority = Infinity;
+
+    steps.forEach(step => {
+      if (step.stepType) {
+        const priority = typePriority[step.stepType] || 10;
+        if (priority < highestPriority) {
+          highestPriority = priority;
+          mostImportantType = step.stepType;
+        }
+      }
+    });
+
+    return mostImportantType || 'configuration';
+  }
+
+  private shouldConsolidate(stepType: string): boolean {
+    return ['package-update', 'dependencies', 'configuration'].includes(stepType);
+  }
+
+  private consolidatePackageUpdates(
+    packageSteps: UpgradeStep[],
+    dependencySteps: UpgradeStep[],
+    framework: Framework,
+    targetVersion: Version,
+    generated: ReturnType<typeof buildPackageUpdateStep>
+  ): UpgradeStep | null {
+    if (packageSteps.length === 0) return null;
+
+    const sortedSteps = [...packageSteps].sort((a, b) => compareVersions(a.from, b.from) || compareVersions(a.to, b.to));
+    const lastStep = sortedSteps[sortedSteps.length - 1];
+    const mergedSteps = [...sortedSteps, ...dependencySteps].sort((a, b) => compareVersions(a.from, b.from) || compareVersions(a.to, b.to));
+    // The target's requirements replace the hops' bumps of the same packages
+    const generatedOperations = generated?.operations || [];
+    const operations = [
+      ...(this.mergeOperations(sortedSteps) || []).filter(operation => operation.type !== 'package-version' ||
+        !generatedOperations.some(generatedOperation => generatedOperation.type === 'package-version' && generatedOperation.package === operation.package)),
+      ...generatedOperations,
+    ];
+    const otherPackages = this.getUnlistedPackageUpdates(dependencySteps, framework, targetVersion);
+    operations.push(...otherPackages);
+
+    return {
+      instruction: generated?.instruction || lastStep.instruction,
+      detailedDescription: generated
+        ? [generated.detailedDescription, ...this.describeUnlistedPackageUpdates(otherPackages, framework)].join('\n\n')
+        : lastStep.detailedDescription,
+      from: minVersion(mergedSteps.map(s => s.from))!,
+      to: generated ? formatVersion(targetVersion) : lastStep.to,
+      stepType: lastStep.stepType,
+      affectedFile: lastStep.affectedFile,
+      // One install to the target version replaces the per-hop updates
+      ...this.mergeEstimates(mergedSteps, 'max'),
+      ...this.mergeDependencies(mergedSteps),
+      ...this.mergeRollback(mergedSteps),
+      operations: operations.length > 0 ? operations : undefined,
+      verification: this.mergeVerification(mergedSteps),
+      sources: this.mergeSources(mergedSteps)
+    };
+  }
+
+  // Bumps of the folded dependency steps for packages the target's requirements don't list, one per
+  // package at the highest version a hop asks for
+  private getUnlistedPackageUpdates(dependencySteps: UpgradeStep[], framework: Framework, targetVersion: Version): PackageVersionOperation[] {
+    const requiredPackages = getRequiredPackageNames(framework, targetVersion);
+    const updates = new Map<string, PackageVersionOperation>();
+    dependencySteps.flatMap(step => step.operations || []).forEach(operation => {
+      if (operation.type !== 'package-version' || requiredPackages.includes(operation.package)) return;
+      const existing = updates.get(operation.package);
+      if (!existing || compareVersions(existing.version, operation.version) < 0) {
+        updates.set(operation.package, operation);
+      }
+    });
+    return [...updates.values()];
+  }
+
+  private describeUnlistedPackageUpdates(updates: PackageVersionOperation[], framework: Framework): string[] {
+    if (updates.length === 0) return [];
+
+    const lines = ['The release notes of the versions in between also update these packages:', ''];
+    if (getFramework(framework)?.packageManager === 'nuget') {
+      lines.push('```bash', ...updates.map(update => `dotnet add package ${update.package} --version ${update.version}`), '```');
+    } else {
+      const specs = updates.map(update => `${update.package}@^${update.version}`).join(' ');
+      lines.push('```bash', `npm install ${specs}`, '```', '', 'Or if using yarn:', '```bash', `yarn add ${specs}`, '```');
+    }
+    return [lines.join('\n')];
+  }
+
+  private mergeOperations(steps: UpgradeStep[]): UpgradeStep['operations'] {
+    const operations = steps.flatMap(step => step.operations || []);
+    return operations.length > 0 ? operations : undefined;
+  }
+
+  // A package rule checks for its own step's version by default, which the merged step no longer
+  // has; of the rules for one package only the one asking for the latest version is kept
+  private mergeVerification(steps: UpgradeStep[]): UpgradeStep['verification'] {
+    const packageRules = new Map<string, PackageVersionRule>();
+    const otherRules = new Map<string, VerificationRule>();
+    steps.forEach(step => (step.verification || []).forEach(rule => {
+      if (rule.type !== 'package-version') {
+        otherRules.set(JSON.stringify(rule), rule);
+        return;
+      }
+      const version = rule.version || step.to;
+      const existing = packageRules.get(rule.package);
+      if (!existing?.version || compareVersions(existing.version, version) < 0) {
+        packageRules.set(rule.package, { ...rule, version });
+      }
+    }));
+    const rules = [...packageRules.values(), ...otherRules.values()];
+    return rules.length > 0 ? rules : undefined;
+  }
+
+  // Steps that were already merged contribute their own sources, so the list stays flat
+  private mergeSources(steps: UpgradeStep[]): StepSource[] {
+    return steps.flatMap(step => step.sources || [{
+      id: step.id,
+      instruction: step.instruction,
+      detailedDescription: step.detailedDescription,
+      from: step.from,
+      to: step.to,
+      stepType: step.stepType,
+      affectedFile: step.affectedFile,
+      severity: step.severity,
+      effortHours: step.effortHours,
+      productionRisk: step.productionRisk,
+    }]);
+  }
+
+  // A merged step depends on what its steps depend on, apart from each other
+  private mergeDependencies(steps: UpgradeStep[]): Pick<UpgradeStep, 'dependsOn'> {
+    const ownIds = new Set(steps.flatMap(getContainedStepIds));
+    const dependsOn = [...new Set(steps.flatMap(step => step.dependsOn || []))].filter(id => !ownIds.has(id));
+    return dependsOn.length > 0 ? { dependsOn } : {};
+  }
+
+  // Severity and risk follow the most demanding step. Effort adds up when the merged steps are
+  // separate pieces of work, and is the largest one's when a single change replaces them all.
+  private mergeEstimates(steps: UpgradeStep[], effort: 'sum' | 'max'): Pick<UpgradeStep, 'severity' | 'effortHours' | 'productionRisk'> {
+    const estimate: Pick<UpgradeStep, 'severity' | 'effortHours' | 'productionRisk'> = {};
+    const severity = STEP_SEVERITIES.find(value => steps.some(step => step.severity === value));
+    const efforts = steps.map(step => step.effortHours).filter((hours): hours is number => hours !== undefined);
+
+    if (severity) estimate.severity = severity;
+    if (efforts.length > 0) {
+      estimate.effortHours = effort === 'sum' ? efforts.reduce((total, hours) => total + hours, 0) : Math.max(...efforts);
+    }
+    if (steps.some(step => step.productionRisk)) estimate.productionRisk = true;
+    return estimate;
+  }
+
+  // Reverse instructions stay per step, latest first as they'd be undone. One step that can't be
+  // undone makes the merged step irreversible.
+  private mergeRollback(steps: UpgradeStep[]): Pick<UpgradeStep, 'rollback' | 'irreversible'> {
+    const sections = [...steps].reverse()
+      .filter(step => step.rollback)
+      .map(step => `#### ${step.instruction} (${step.from} → ${step.to})\n\n${step.rollback}`);
+    return {
+      ...(sections.length > 0 ? { rollback: sections.join('\n\n') } : {}),
+      ...(steps.some(step => step.irreversible) ? { irreversible: true } : {}),
+    };
+  }
+
+  private getStepTypePriority(stepType?: string): number {
+    const priorities: Record<string, number> = {
+      'package-update': 1,
+      'dependencies': 2,
+      'configuration': 3,
+      'code-update': 4,
+      'testing': 5,
+      'deployment': 6
+    };
+    return priorities[stepType || 'default'] || 10;
+  }
+
+  private removeDuplicateInstructions(steps: UpgradeStep[]): UpgradeStep[] {
+    const stepsByInstruction = new Map<string, UpgradeStep[]>();
+    steps.forEach(step => {
+      const hash = this.hashInstruction(step.instruction);
+      if (!stepsByInstruction.has(hash)) {
+        stepsByInstruction.set(hash, []);
+      }
+      stepsByInstruction.get(hash)!.push(step);
+    });
+
+    // Keep the first step of each instruction, but don't lose the operations of the duplicates
+    return Array.from(stepsByInstruction.values()).map(duplicates => {
+      if (duplicates.length === 1) return duplicates[0];
+      return {
+        ...duplicates[0],
+        id: undefined,
+        ...this.mergeEstimates(duplicates, 'max'),
+        dependsOn: undefined,
+        ...this.mergeDependencies(duplicates),
+        rollback: undefined,
+        irreversible: undefined,
+        ...this.mergeRollback(duplicates),
+        operations: this.mergeOperations(duplicates),
+        verification: this.mergeVerification(duplicates),
+        sources: this.mergeSources(duplicates),
+      };
+    });
+  }
+
+  private hashInstruction(instruction: string): string {
+    return crypto.createHash('md5').update(instruction.trim().toLowerCase()).digest('hex');
+  }
+}
+
+// Id for a step the data doesn't give one: "<framework>-<hash>", derived from the hop and the
+// instruction so it survives edits to the description
+export function getStepId(framework: Framework, step: Pick<UpgradeStep, 'from' | 'to' | 'instruction'>): string {
+  const key = `${formatVersion(step.from)}→${formatVersion(step.to)}:${step.instruction.trim().toLowerCase()}`;
+  return `${framework}-${crypto.createHash('sha1').update(key).digest('hex').slice(0, 10)}`;
+}
+
+function withStepId(framework: Framework, step: UpgradeStep): UpgradeStep {
+  return step.id ? step : { id: getStepId(framework, step), ...step };
+}
+
+// Step ids start with their framework's id, the longest match wins so content-sdk-… isn't content-…
+function getStepFramework(id: string) {
+  return FRAMEWORKS
+    .filter(framework => id.startsWith(`${framework.id}-`))
+    .sort((a, b) => b.id.length - a.id.length)[0];
+}
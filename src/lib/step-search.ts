@@ -0,0 +1,217 @@
+import { Tokens } from 'marked';
+import { Framework, UpgradeStep } from '../types/upgrade-step';
+import { SearchField, SearchHighlight, StepSearchResponse, StepSearchResult } from '../types/search';
+import { getUpgradeStepRepository } from './data-layer';
+import { FRAMEWORKS } from './frameworks';
+import { parseMarkdown } from './markdown';
+import { compareVersions } from './version';
+
+export interface StepSearchOptions {
+  framework?: Framework;
+  limit?: number;
+}
+
+interface IndexedStep {
+  framework: Framework;
+  step: UpgradeStep;
+  fields: Record<SearchField, string>;
+}
+
+interface StepSearchIndex {
+  signature: string; // Data version of the repository the index was built from
+  steps: IndexedStep[];
+  terms: Map<string, Set<number>>; // Term to the positions of the steps containing it
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Fields in the order they are highlighted, a match in the instruction counts most
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  instruction: 5,
+  affectedFile: 4,
+  code: 2,
+  description: 1,
+};
+
+// Identifiers, file paths and package names stay whole, e.g. publicRuntimeConfig or src/middleware.ts
+const WORD_PATTERN = /[\w$@./-]+/g;
+
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 60; // Characters shown before the first match
+
+let searchIndex: StepSearchIndex | undefined;
+
+// Steps of every framework whose text contains all the query's terms, a term also matching the
+// start of a longer word, best matches first
+export async function searchSteps(query: string, options: StepSearchOptions = {}): Promise<StepSearchResponse> {
+  const index = await getSearchIndex();
+  const terms = parseQuery(query);
+  if (terms.length === 0) {
+    return { query, total: 0, results: [] };
+  }
+
+  const matches = terms
+    .map(term => findStepsWithTerm(index, term))
+    .reduce((common, positions) => new Set([...common].filter(position => positions.has(position))));
+
+  const results = [...matches]
+    .map(position => index.steps[position])
+    .filter(indexed => !options.framework || indexed.framework === options.framework)
+    .map(indexed => toSearchResult(indexed, terms))
+    .sort((a, b) => b.score - a.score || compareVersions(b.to, a.to) || a.instruction.localeCompare(b.instruction));
+
+  return { query, total: results.length, results: results.slice(0, options.limit || DEFAULT_SEARCH_LIMIT) };
+}
+
+// The index is rebuilt when the repository reports that its data changed, whichever backend the
+// data comes from and however it was changed
+async function getSearchIndex(): Promise<StepSearchIndex> {
+  const repository = getUpgradeStepRepository();
+  const signature = await repository.getDataVersion();
+
+  if (searchIndex?.signature !== signature) {
+    const data = await Promise.all(FRAMEWORKS.map(async ({ id }) => ({ framework: id, steps: await repository.getAllSteps(id) })));
+    searchIndex = buildSearchIndex(signature, data);
+  }
+  return searchIndex;
+}
+
+function buildSearchIndex(signature: string, data: { framework: Framework; steps: UpgradeStep[] }[]): StepSearchIndex {
+  const index: StepSearchIndex = { signature, steps: [], terms: new Map() };
+
+  data.forEach(({ framework, steps }) => steps.forEach(step => {
+    const position = index.steps.push({ framework, step, fields: getSearchFields(step) }) - 1;
+    Object.values(index.steps[position].fields).forEach(text => tokenize(text).forEach(term => {
+      if (!index.terms.has(term)) {
+        index.terms.set(term, new Set());
+      }
+      index.terms.get(term)!.add(position);
+    }));
+  }));
+
+  return index;
+}
+
+function getSearchFields(step: UpgradeStep): Record<SearchField, string> {
+  const code: string[] = [];
+  const prose: string[] = [];
+  parseMarkdown(step.detailedDescription).forEach(token => {
+    if (token.type === 'code') {
+      code.push((token as Tokens.Code).text);
+    } else {
+      prose.push(token.raw);
+    }
+  });
+
+  return {
+    instruction: step.instruction,
+    affectedFile: step.affectedFile || '',
+    code: collapseWhitespace(code.join('\n')),
+    description: collapseWhitespace(prose.join(' ').replace(/\*\*|__|`|^#+ /gm, '')),
+  };
+}
+
+// Whole words plus their parts and path suffixes, so middleware.ts finds src/middleware.ts and
+// sitecore-jss finds @sitecore-jss/sitecore-jss-nextjs
+function tokenize(text: string): Set<string> {
+  const terms = new Set<string>();
+  (text.toLowerCase().match(WORD_PATTERN) || []).forEach(match => {
+    const word = match.replace(/^[./-]+|[./-]+$/g, '');
+    if (!word) return;
+
+    terms.add(word);
+    word.split(/[./@-]+/).filter(Boolean).forEach(part => terms.add(part));
+    const segments = word.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      terms.add(segments.slice(i).join('/'));
+    }
+  });
+  return terms;
+}
+
+function parseQuery(query: string): string[] {
+  const words = (query.toLowerCase().match(WORD_PATTERN) || []).map(word => word.replace(/^[./-]+|[./-]+$/g, ''));
+  return [...new Set(words)].filter(word => word.length >= MIN_TERM_LENGTH);
+}
+
+function findStepsWithTerm(index: StepSearchIndex, term: string): Set<number> {
+  const positions = new Set<number>();
+  index.terms.forEach((termPositions, indexedTerm) => {
+    if (indexedTerm.startsWith(term)) {
+      termPositions.forEach(position => positions.add(position));
+    }
+  });
+  return positions;
+}
+
+function toSearchResult({ framework, step, fields }: IndexedStep, terms: string[]): StepSearchResult {
+  let score = 0;
+  const highlights: SearchHighlight[] = [];
+
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+    const ranges = findRanges(fields[field], terms);
+    if (ranges.length === 0) return;
+
+    score += FIELD_WEIGHTS[field] * Math.min(ranges.length, 3);
+    highlights.push({ field, ...toSnippet(fields[field], ranges) });
+  });
+
+  return {
+    id: step.id!,
+    framework,
+    from: step.from,
+    to: step.to,
+    instruction: step.instruction,
+    stepType: step.stepType,
+    affectedFile: step.affectedFile,
+    score,
+    highlights,
+  };
+}
+
+// Where the terms occur in the text, overlapping matches merged
+function findRanges(text: string, terms: string[]): [number, number][] {
+  const lowerText = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    for (let start = lowerText.indexOf(term); start !== -1; start = lowerText.indexOf(term, start + term.length)) {
+      ranges.push([start, start + term.length]);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+}
+
+// Long fields are cut to a window starting a little before the first match
+function toSnippet(text: string, ranges: [number, number][]): Pick<SearchHighlight, 'text' | 'ranges'> {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { text, ranges };
+  }
+
+  const start = Math.max(0, Math.min(ranges[0][0] - SNIPPET_CONTEXT, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart - start + prefix.length, rangeEnd - start + prefix.length]),
+  };
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
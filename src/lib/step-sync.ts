@@ -0,0 +1,93 @@
+import { createTwoFilesPatch } from 'diff';
+import { UpgradeStep } from '../types/upgrade-step';
+import { compareVersions, formatVersion } from './version';
+
+export interface StepSyncResult {
+  steps: UpgradeStep[]; // The dataset with the imported steps merged in
+  added: UpgradeStep[];
+  updated: { before: UpgradeStep; after: UpgradeStep }[];
+  unchanged: UpgradeStep[];
+  // Dataset steps for the imported version hops the page doesn't have, they are kept
+  onlyInDataset: UpgradeStep[];
+}
+
+// Imported steps match a dataset step for the same hop when their instructions share this many words
+const MATCH_THRESHOLD = 0.5;
+
+// Merge steps imported from the docs into a dataset. The docs own the wording of a step; step
+// types, files, operations and conditions curated in the dataset are kept.
+export function mergeImportedSteps(current: UpgradeStep[], imported: UpgradeStep[]): StepSyncResult {
+  const steps = [...current];
+  const matched = new Set<UpgradeStep>();
+  const result: StepSyncResult = { steps, added: [], updated: [], unchanged: [], onlyInDataset: [] };
+
+  imported.forEach(importedStep => {
+    const match = findMatchingStep(steps.filter(step => !matched.has(step)), importedStep);
+    if (!match) {
+      steps.splice(getInsertIndex(steps, importedStep), 0, importedStep);
+      result.added.push(importedStep);
+      return;
+    }
+
+    matched.add(match);
+    const merged: UpgradeStep = {
+      ...match,
+      instruction: importedStep.instruction,
+      detailedDescription: importedStep.detailedDescription,
+    };
+    if (!merged.stepType && importedStep.stepType) merged.stepType = importedStep.stepType;
+    if (!merged.affectedFile && importedStep.affectedFile) merged.affectedFile = importedStep.affectedFile;
+
+    if (JSON.stringify(merged) === JSON.stringify(match)) {
+      result.unchanged.push(match);
+    } else {
+      steps[steps.indexOf(match)] = merged;
+      matched.add(merged);
+      result.updated.push({ before: match, after: merged });
+    }
+  });
+
+  const importedHops = new Set(imported.map(getHopKey));
+  result.onlyInDataset = current.filter(step => importedHops.has(getHopKey(step)) && !matched.has(step));
+
+  return result;
+}
+
+// Unified diff of a data file, in the format the files are written in
+export function createDatasetPatch(file: string, before: UpgradeStep[], after: UpgradeStep[]): string {
+  return createTwoFilesPatch(`a/${file}`, `b/${file}`, formatDataset(before), formatDataset(after));
+}
+
+export function formatDataset(steps: UpgradeStep[]): string {
+  return JSON.stringify(steps, null, 2);
+}
+
+function findMatchingStep(candidates: UpgradeStep[], importedStep: UpgradeStep): UpgradeStep | undefined {
+  const hop = getHopKey(importedStep);
+  return candidates
+    .filter(step => getHopKey(step) === hop)
+    .map(step => ({ step, similarity: getSimilarity(step.instruction, importedStep.instruction) }))
+    .filter(({ similarity }) => similarity >= MATCH_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)[0]?.step;
+}
+
+// New steps go after the last step of their hop, or where their hop would be in version order
+function getInsertIndex(steps: UpgradeStep[], step: UpgradeStep): number {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (compareVersions(steps[i].to, step.to) <= 0) return i + 1;
+  }
+  return 0;
+}
+
+function getHopKey(step: UpgradeStep): string {
+  return `${formatVersion(step.from)}→${formatVersion(step.to)}`;
+}
+
+// Share of words the two instructions have in common
+function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().match(/[\w@./-]+/g) || []);
+  const wordsB = new Set(b.toLowerCase().match(/[\w@./-]+/g) || []);
+  const common = [...wordsA].filter(word => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total === 0 ? 0 : common / total;
+}
@@ -0,0 +1,39 @@
+import { StepSeverity } from '../types/upgrade-step';
+import { StepStatus } from '../types/upgrade-session';
+
+// Display names for step types, shared by the UI and the plan exports
+const stepTypeLabels: Record<string, string> = {
+  'package-update': 'Package Update',
+  'dependencies': 'Dependencies',
+  'configuration': 'Configuration',
+  'code-update': 'Code Update',
+  'testing': 'Testing',
+  'deployment': 'Deployment'
+};
+
+export const STEP_TYPES = Object.keys(stepTypeLabels);
+
+export function getStepTypeLabel(stepType?: string): string {
+  return stepTypeLabels[stepType || 'default'] || 'General';
+}
+
+const severityLabels: Record<StepSeverity, string> = {
+  'breaking': 'Breaking',
+  'recommended': 'Recommended',
+  'optional': 'Optional'
+};
+
+export function getSeverityLabel(severity: StepSeverity): string {
+  return severityLabels[severity];
+}
+
+const statusLabels: Record<StepStatus, string> = {
+  'todo': 'To do',
+  'in-progress': 'In progress',
+  'done': 'Done',
+  'skipped': 'Skipped'
+};
+
+export function getStepStatusLabel(status: StepStatus): string {
+  return statusLabels[status];
+}
@@ -0,0 +1,179 @@
+import ts from 'typescript';
+import { UpgradeStep } from '../types/upgrade-step';
+import { ProjectSnapshot } from '../types/project';
+import {
+  EnvVarRule,
+  FileContainsRule,
+  JsonValueRule,
+  NoImportRule,
+  PackageVersionRule,
+  RuleResult,
+  StepVerification,
+  VerificationRule,
+  VerificationStatus,
+} from '../types/verification';
+import { compareVersions, formatVersion, getRangeMinimum } from './version';
+import { matchesFilePattern } from './project-scanner';
+import { stripJsonComments } from './codemods';
+
+// Run the verification rules of every step that has them; steps without rules are left out
+export function verifySteps(snapshot: ProjectSnapshot, steps: UpgradeStep[]): StepVerification[] {
+  return steps.flatMap((step, stepIndex) => {
+    if (!step.verification || step.verification.length === 0) return [];
+
+    const results = step.verification.map(rule => verifyRule(snapshot, rule, step));
+    return [{
+      stepIndex,
+      ...(step.id ? { stepId: step.id } : {}),
+      instruction: step.instruction,
+      status: getStepStatus(results),
+      results,
+    }];
+  });
+}
+
+export function verifyRule(snapshot: ProjectSnapshot, rule: VerificationRule, step: Pick<UpgradeStep, 'to'>): RuleResult {
+  try {
+    switch (rule.type) {
+      case 'package-version':
+        return verifyPackageVersion(snapshot, rule, step);
+      case 'env-var':
+        return verifyEnvVar(snapshot, rule);
+      case 'json-value':
+        return verifyJsonValue(snapshot, rule);
+      case 'file-contains':
+        return verifyFileContains(snapshot, rule);
+      case 'no-import':
+        return verifyNoImport(snapshot, rule);
+    }
+  } catch (error) {
+    return { rule, status: 'unknown', evidence: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function getStepStatus(results: RuleResult[]): VerificationStatus {
+  if (results.some(result => result.status === 'fail')) return 'fail';
+  return results.every(result => result.status === 'pass') ? 'pass' : 'unknown';
+}
+
+// A file the snapshot doesn't have fails the rule, unless only package.json was uploaded
+function missingFile(snapshot: ProjectSnapshot, rule: VerificationRule, file: string): RuleResult {
+  return snapshot.hasSourceFiles
+    ? { rule, status: 'fail', evidence: `${file} was not found in the project` }
+    : { rule, status: 'unknown', evidence: `${file} can't be checked, only package.json was uploaded` };
+}
+
+function verifyPackageVersion(snapshot: ProjectSnapshot, rule: PackageVersionRule, step: Pick<UpgradeStep, 'to'>): RuleResult {
+  const content = snapshot.files['package.json'];
+  if (content === undefined) return missingFile(snapshot, rule, 'package.json');
+
+  const manifest = JSON.parse(content) as Record<string, Record<string, string> | undefined>;
+  const required = formatVersion(rule.version || step.to);
+  const range = ['dependencies', 'devDependencies', 'peerDependencies']
+    .map(section => manifest[section]?.[rule.package])
+    .find((value): value is string => typeof value === 'string');
+
+  if (!range) {
+    return { rule, status: 'fail', evidence: `${rule.package} is not a dependency in package.json` };
+  }
+  const minimum = getRangeMinimum(range);
+  if (!minimum) {
+    return { rule, status: 'unknown', evidence: `package.json has ${rule.package} ${range}, which can't be compared with ${required}` };
+  }
+  return compareVersions(minimum, required) >= 0
+    ? { rule, status: 'pass', evidence: `package.json has ${rule.package} ${range}` }
+    : { rule, status: 'fail', evidence: `package.json has ${rule.package} ${range}, ${required} or later is required` };
+}
+
+function verifyEnvVar(snapshot: ProjectSnapshot, rule: EnvVarRule): RuleResult {
+  const file = rule.file || '.env';
+  const content = snapshot.files[file];
+  if (content === undefined) return missingFile(snapshot, rule, file);
+
+  const line = content.split('\n').findIndex(text => new RegExp(`^\\s*(export\\s+)?${escapeRegExp(rule.name)}\\s*=`).test(text));
+  return line === -1
+    ? { rule, status: 'fail', evidence: `${rule.name} is not set in ${file}` }
+    : { rule, status: 'pass', evidence: `${rule.name} is set in ${file} (line ${line + 1})` };
+}
+
+function verifyJsonValue(snapshot: ProjectSnapshot, rule: JsonValueRule): RuleResult {
+  const content = snapshot.files[rule.file];
+  if (content === undefined) return missingFile(snapshot, rule, rule.file);
+
+  let node: unknown;
+  try {
+    node = JSON.parse(stripJsonComments(content));
+  } catch {
+    return { rule, status: 'fail', evidence: `${rule.file} is not valid JSON` };
+  }
+
+  const segments = rule.path.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  for (const segment of segments) {
+    if (!node || typeof node !== 'object' || !(segment in node)) {
+      return { rule, status: 'fail', evidence: `${rule.path} is not set in ${rule.file}` };
+    }
+    node = (node as Record<string, unknown>)[segment];
+  }
+
+  const found = JSON.stringify(node);
+  if (rule.value !== undefined && found !== JSON.stringify(rule.value)) {
+    return { rule, status: 'fail', evidence: `${rule.path} is ${found} in ${rule.file}, expected ${JSON.stringify(rule.value)}` };
+  }
+  return { rule, status: 'pass', evidence: `${rule.path} is ${found} in ${rule.file}` };
+}
+
+function verifyFileContains(snapshot: ProjectSnapshot, rule: FileContainsRule): RuleResult {
+  const files = getMatchingFiles(snapshot, rule.file);
+  if (files.length === 0) return missingFile(snapshot, rule, rule.file);
+
+  const pattern = new RegExp(rule.pattern, rule.flags?.replace('g', ''));
+  for (const file of files) {
+    const content = snapshot.files[file];
+    const match = pattern.exec(content);
+    if (match) {
+      const line = content.slice(0, match.index).split('\n').length;
+      return { rule, status: 'pass', evidence: `${file}:${line}: ${content.split('\n')[line - 1].trim()}` };
+    }
+  }
+  return { rule, status: 'fail', evidence: `No match for /${rule.pattern}/ in ${files.join(', ')}` };
+}
+
+// A missing file is not checked: it may just live somewhere else, e.g. src/middleware.ts
+function verifyNoImport(snapshot: ProjectSnapshot, rule: NoImportRule): RuleResult {
+  const files = getMatchingFiles(snapshot, rule.file);
+  if (files.length === 0) {
+    return { rule, status: 'unknown', evidence: `${rule.file} was not found in the project, so it was not checked` };
+  }
+
+  const imported = rule.name ? `${rule.name} from ${rule.module}` : rule.module;
+  for (const file of files) {
+    const content = snapshot.files[file];
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+    const declaration = sourceFile.statements.find((statement): statement is ts.ImportDeclaration =>
+      ts.isImportDeclaration(statement)
+      && ts.isStringLiteral(statement.moduleSpecifier)
+      && statement.moduleSpecifier.text === rule.module
+      && (!rule.name || importsName(statement, rule.name))
+    );
+    if (declaration) {
+      const line = sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile)).line + 1;
+      return { rule, status: 'fail', evidence: `${file}:${line} still imports ${imported}: ${declaration.getText(sourceFile).split('\n')[0]}` };
+    }
+  }
+  return { rule, status: 'pass', evidence: `${files.join(', ')} no longer import${files.length === 1 ? 's' : ''} ${imported}` };
+}
+
+function importsName(declaration: ts.ImportDeclaration, name: string): boolean {
+  const bindings = declaration.importClause?.namedBindings;
+  return !!bindings && ts.isNamedImports(bindings)
+    && bindings.elements.some(element => (element.propertyName || element.name).text === name);
+}
+
+function getMatchingFiles(snapshot: ProjectSnapshot, pattern: string): string[] {
+  if (snapshot.files[pattern] !== undefined) return [pattern];
+  return Object.keys(snapshot.files).filter(file => matchesFilePattern(pattern, file)).sort();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,78 @@
+import { UpgradePath, VersionRange } from '../types/upgrade-step';
+import { Version, compareVersions, formatVersion } from './version';
+
+// Version hops keyed by the version they start from
+export type VersionGraph = Map<string, string[]>;
+
+export function buildVersionGraph(hops: VersionRange[]): VersionGraph {
+  const graph: VersionGraph = new Map();
+  hops.forEach(hop => {
+    const from = formatVersion(hop.from);
+    const to = formatVersion(hop.to);
+    if (!graph.has(from)) {
+      graph.set(from, []);
+    }
+    if (!graph.get(from)!.includes(to)) {
+      graph.get(from)!.push(to);
+    }
+  });
+  return graph;
+}
+
+// Walk from one version to the other, always taking the longest hop that starts at or before the
+// current version and doesn't overshoot the target. Stretches without a hop are reported as gaps.
+export function findUpgradePath(graph: VersionGraph, fromVersion: Version | string, toVersion: Version | string): UpgradePath {
+  const target = formatVersion(toVersion);
+  const hops = Array.from(graph.entries()).flatMap(([from, targets]) => targets.map(to => ({ from, to })));
+  const segments: VersionRange[] = [];
+  const gaps: VersionRange[] = [];
+  let current = formatVersion(fromVersion);
+
+  while (compareVersions(current, target) < 0) {
+    // A hop from 21.7 also applies to a project on 21.7.1
+    const next = hops
+      .filter(hop => compareVersions(hop.from, current) <= 0 && compareVersions(hop.to, current) > 0 && compareVersions(hop.to, target) <= 0)
+      .reduce<VersionRange | undefined>((best, hop) => (!best || compareVersions(hop.to, best.to) > 0 ? hop : best), undefined);
+
+    if (next) {
+      segments.push({ from: current, to: next.to });
+      current = next.to;
+      continue;
+    }
+
+    // Nothing covers the current version, the gap runs until the next hop starts
+    const nextStart = hops
+      .map(hop => hop.from)
+      .filter(version => compareVersions(version, current) > 0 && compareVersions(version, target) < 0)
+      .reduce<string | undefined>((min, version) => (!min || compareVersions(version, min) < 0 ? version : min), undefined);
+    const gapEnd = nextStart || target;
+
+    gaps.push({ from: current, to: gapEnd });
+    current = gapEnd;
+  }
+
+  return { segments: mergeAdjacent(segments), gaps };
+}
+
+// The route of a rollback: the upgrade's route walked backwards, latest segment first
+export function reverseUpgradePath(path: UpgradePath): UpgradePath {
+  const reverse = (ranges: VersionRange[]) => [...ranges].reverse().map(range => ({ from: range.to, to: range.from }));
+  return { segments: reverse(path.segments), gaps: reverse(path.gaps) };
+}
+
+export function formatVersionRange(range: VersionRange): string {
+  return `${formatVersion(range.from)} → ${formatVersion(range.to)}`;
+}
+
+// 21.7 → 22.0 and 22.0 → 22.1 read better as one covered segment
+function mergeAdjacent(ranges: VersionRange[]): VersionRange[] {
+  return ranges.reduce<VersionRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && compareVersions(last.to, range.from) === 0) {
+      last.to = range.to;
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
@@ -0,0 +1,148 @@
+// Semantic version model used for step hops, requests and detected project versions.
+// JSS release lines are usually written as major.minor ("22.10"), patch and pre-release are optional.
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/;
+
+export function tryParseVersion(input: string | number | null | undefined): Version | null {
+  if (input === null || input === undefined) return null;
+
+  const match = String(input).trim().match(VERSION_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] || 0),
+    patch: Number(match[3] || 0),
+    prerelease: match[4] ? match[4].split('.').map(part => (/^\d+$/.test(part) ? Number(part) : part)) : [],
+  };
+}
+
+export function parseVersion(input: string | number): Version {
+  const version = tryParseVersion(input);
+  if (!version) {
+    throw new Error(`Invalid version "${input}"`);
+  }
+  return version;
+}
+
+export function isValidVersion(input: string): boolean {
+  return tryParseVersion(input) !== null;
+}
+
+// Semver precedence: numeric parts first, then a pre-release sorts before its release
+export function compareVersions(a: Version | string, b: Version | string): number {
+  const left = typeof a === 'string' ? parseVersion(a) : a;
+  const right = typeof b === 'string' ? parseVersion(b) : b;
+
+  const numeric = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (numeric !== 0) return Math.sign(numeric);
+
+  if (left.prerelease.length === 0 && right.prerelease.length === 0) return 0;
+  if (left.prerelease.length === 0) return 1;
+  if (right.prerelease.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+    const leftPart = left.prerelease[i];
+    const rightPart = right.prerelease[i];
+    if (leftPart === undefined) return -1;
+    if (rightPart === undefined) return 1;
+    if (leftPart === rightPart) continue;
+    if (typeof leftPart === 'number' && typeof rightPart === 'number') return Math.sign(leftPart - rightPart);
+    if (typeof leftPart === 'number') return -1;
+    if (typeof rightPart === 'number') return 1;
+    return leftPart < rightPart ? -1 : 1;
+  }
+  return 0;
+}
+
+export function maxVersion<T extends Version | string>(versions: T[]): T | undefined {
+  return versions.reduce<T | undefined>((max, version) => (max === undefined || compareVersions(version, max) > 0 ? version : max), undefined);
+}
+
+export function minVersion<T extends Version | string>(versions: T[]): T | undefined {
+  return versions.reduce<T | undefined>((min, version) => (min === undefined || compareVersions(version, min) < 0 ? version : min), undefined);
+}
+
+// Short form used in the UI and data files: the patch is only shown when it carries information
+export function formatVersion(version: Version | string): string {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  const base = parsed.patch !== 0 || parsed.prerelease.length > 0
+    ? `${parsed.major}.${parsed.minor}.${parsed.patch}`
+    : `${parsed.major}.${parsed.minor}`;
+  return parsed.prerelease.length > 0 ? `${base}-${parsed.prerelease.join('.')}` : base;
+}
+
+// Full major.minor.patch form, as written in package.json
+export function formatFullVersion(version: Version | string): string {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  const base = `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  return parsed.prerelease.length > 0 ? `${base}-${parsed.prerelease.join('.')}` : base;
+}
+
+// Lowest version a package.json range like ^22.4.2, ~22.4 or >=22.0.0 allows
+export function getRangeMinimum(range: string): Version | null {
+  const match = range.match(/v?\d+(?:\.\d+){0,2}(?:-[0-9A-Za-z-.]+)?/);
+  return match ? tryParseVersion(match[0]) : null;
+}
+
+// Supports npm-style ranges: "*", "22.x", "^22.1", "~22.4.2", comparators (">=22.0 <23") and "||"
+export function satisfiesRange(version: Version | string, range: string): boolean {
+  const parsed = typeof version === 'string' ? tryParseVersion(version) : version;
+  if (!parsed) return false;
+
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) return true;
+    return comparators.every(comparator => satisfiesComparator(parsed, comparator));
+  });
+}
+
+function satisfiesComparator(version: Version, comparator: string): boolean {
+  if (comparator === '*' || comparator === 'x' || comparator === 'X') return true;
+
+  const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?\s*v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-.]+))?$/);
+  if (!match) return false;
+
+  const [, operator = '', majorText, minorText, patchText, prereleaseText] = match;
+  const isWildcard = (part?: string) => part === undefined || /^[xX*]$/.test(part);
+  const bound = parseVersion(
+    [majorText, minorText, patchText].map(part => (isWildcard(part) ? '0' : part)).join('.') + (prereleaseText ? `-${prereleaseText}` : '')
+  );
+  const comparison = compareVersions(version, bound);
+
+  // Partial versions ("22", "22.4", "22.x") behave like ranges over the missing parts
+  const upperBound = (): Version => {
+    if (operator === '^') {
+      if (bound.major > 0 || isWildcard(minorText)) return { major: bound.major + 1, minor: 0, patch: 0, prerelease: [0] };
+      if (bound.minor > 0 || isWildcard(patchText)) return { major: 0, minor: bound.minor + 1, patch: 0, prerelease: [0] };
+      return { major: 0, minor: 0, patch: bound.patch + 1, prerelease: [0] };
+    }
+    if (isWildcard(minorText)) return { major: bound.major + 1, minor: 0, patch: 0, prerelease: [0] };
+    if (operator === '~' || isWildcard(patchText)) return { major: bound.major, minor: bound.minor + 1, patch: 0, prerelease: [0] };
+    return { major: bound.major, minor: bound.minor, patch: bound.patch + 1, prerelease: [0] };
+  };
+
+  switch (operator) {
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '^':
+    case '~':
+      return comparison >= 0 && compareVersions(version, upperBound()) < 0;
+    default:
+      if (!isWildcard(minorText) && !isWildcard(patchText)) return comparison === 0;
+      return comparison >= 0 && compareVersions(version, upperBound()) < 0;
+  }
+}
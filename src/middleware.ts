@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_DISABLED_ERROR, ADMIN_REALM, ADMIN_UNAUTHORIZED_ERROR, getAdminToken, isAdminAuthorized } from './lib/admin-auth';
+
+// The authoring UI and API need the admin token. Without ADMIN_TOKEN nobody can author steps.
+export function middleware(request: NextRequest) {
+  const token = getAdminToken();
+  if (!token) {
+    return NextResponse.json({ error: ADMIN_DISABLED_ERROR }, { status: 403 });
+  }
+
+  if (!isAdminAuthorized(request.headers.get('authorization'), token)) {
+    return NextResponse.json(
+      { error: ADMIN_UNAUTHORIZED_ERROR },
+      { status: 401, headers: { 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}"` } }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*'],
+};
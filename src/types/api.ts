@@ -0,0 +1,27 @@
+// Error codes of the versioned public API, part of its contract: add new codes, never rename them
+export type ApiErrorCode =
+  | 'missing_parameter'
+  | 'invalid_parameter'
+  | 'unknown_parameter'
+  | 'unknown_framework'
+  | 'invalid_version_range'
+  | 'step_not_found'
+  | 'internal_error';
+
+export const API_ERROR_CODES: ApiErrorCode[] = [
+  'missing_parameter',
+  'invalid_parameter',
+  'unknown_parameter',
+  'unknown_framework',
+  'invalid_version_range',
+  'step_not_found',
+  'internal_error',
+];
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    parameter?: string; // Query or path parameter the error is about
+  };
+}
@@ -0,0 +1,62 @@
+// Machine-applicable operations attached to an upgrade step
+
+export interface PackageVersionOperation {
+  type: 'package-version';
+  package: string;
+  version: string; // Target version without range prefix, the existing ^ or ~ is kept
+}
+
+export interface EnvVarOperation {
+  type: 'env-var';
+  name: string;
+  value?: string; // Used when the variable has to be added
+  renameFrom?: string; // Existing variable to rename, keeping its value
+  file?: string; // Defaults to .env
+}
+
+export interface JsonPatch {
+  op: 'add' | 'replace' | 'remove';
+  path: string; // JSON pointer, a "*" segment matches every key of an object
+  value?: unknown;
+}
+
+export interface JsonPatchOperation {
+  type: 'json-patch';
+  file: string;
+  patch: JsonPatch[];
+}
+
+export interface RegexReplaceOperation {
+  type: 'regex-replace';
+  file: string;
+  pattern: string;
+  flags?: string;
+  replacement: string;
+}
+
+// Renames a named import and/or moves it to another module, updating references in the file
+export interface ImportUpdateOperation {
+  type: 'ts-import-update';
+  file: string;
+  module: string;
+  name: string;
+  newName?: string;
+  newModule?: string;
+}
+
+export type UpgradeOperation =
+  | PackageVersionOperation
+  | EnvVarOperation
+  | JsonPatchOperation
+  | RegexReplaceOperation
+  | ImportUpdateOperation;
+
+export interface FileDiff {
+  file: string;
+  diff: string; // Unified diff
+}
+
+export interface StepPreview {
+  diffs: FileDiff[];
+  messages: string[]; // Operations that could not be applied to the project
+}
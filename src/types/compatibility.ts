@@ -0,0 +1,30 @@
+import { Framework } from './upgrade-step';
+
+// What a JSS release requires, one entry per version of the framework registry
+export interface CompatibilityEntry {
+  version: string;
+  node?: string; // Supported Node.js range, npm frameworks only
+  dotnet?: string; // Target framework of the rendering host, e.g. net8.0
+  packages: Record<string, string>; // Required range of each package, the framework package included
+  sitecore: {
+    xp: string[]; // Supported XP / XM versions; empty when the release is XM Cloud only
+    xmCloud: boolean;
+  };
+}
+
+// Status of one requirement against a project's package.json
+export type RequirementStatus = 'ok' | 'update' | 'missing' | 'unknown';
+
+export interface DependencyRequirement {
+  name: string; // Package name, or "node" for the engines.node requirement
+  kind: 'package' | 'engine';
+  current?: string; // Range as written in package.json
+  required: string;
+  status: RequirementStatus; // unknown when the current range can't be compared, e.g. "latest"
+}
+
+export interface CompatibilityCheck {
+  framework: Framework;
+  toVersion: string;
+  requirements: DependencyRequirement[]; // Node.js first, then the packages in data order
+}
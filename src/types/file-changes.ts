@@ -0,0 +1,23 @@
+import { StepSeverity, StepSource, VersionRange } from './upgrade-step';
+
+// A fenced code block from a step description
+export interface CodeSnippet {
+  language?: string;
+  code: string;
+}
+
+// One step's change to a file, as shown in the file view
+export interface FileChange extends StepSource {
+  snippets: CodeSnippet[];
+  applicable?: boolean;
+  notApplicableReason?: string;
+}
+
+// A file an upgrade touches; only applicable steps count
+export interface TouchedFile {
+  file: string; // affectedFile as written in the data, may contain wildcards
+  changes: number;
+  hops: VersionRange[]; // Oldest first
+  severity?: StepSeverity; // Most severe of its changes
+  effortHours: number;
+}
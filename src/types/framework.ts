@@ -0,0 +1,16 @@
+// Entry of the framework registry in src/data/frameworks.json
+export interface FrameworkDefinition {
+  id: string; // Value used in API requests, sessions and URLs
+  name: string; // Display name
+  packageName: string; // Package that identifies the framework in a project
+  packageManager: 'npm' | 'nuget';
+  versions: string[]; // Released versions, oldest first; with a migration's starting point they bound the supported range
+  migratesFrom?: FrameworkMigrationSource; // Set for a migration, whose plans start on another framework
+  dataSource: string; // Step data file in src/data
+}
+
+// Release of another framework a migration starts from, e.g. JSS Next.js 22.8 for the Content SDK
+export interface FrameworkMigrationSource {
+  framework: string; // Registry id
+  version: string;
+}
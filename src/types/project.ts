@@ -0,0 +1,27 @@
+import { Framework } from './upgrade-step';
+
+// In-memory view of an uploaded project, keyed by path relative to the app root
+export interface ProjectSnapshot {
+  files: Record<string, string>;
+  // False when only a package.json was uploaded, so file presence can't be checked
+  hasSourceFiles: boolean;
+}
+
+export interface DetectedProject {
+  framework: Framework;
+  packageName: string;
+  packageVersion: string; // Version range as written in package.json, e.g. ^21.7.1
+  version: string; // Lowest JSS version the range allows, used to pick the upgrade path
+}
+
+export interface ProjectScanResult {
+  detected: DetectedProject | null;
+  files: string[];
+  hasSourceFiles: boolean;
+}
+
+// What the selector passes on about an uploaded project
+export interface ProjectContext {
+  archive: File; // Uploaded package.json or archive, re-sent to preview codemods
+  files?: string[]; // Only set when the archive contained source files
+}
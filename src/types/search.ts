@@ -0,0 +1,29 @@
+import { Framework } from './upgrade-step';
+
+// Parts of a step the search index covers; code is the fenced blocks of the description
+export type SearchField = 'instruction' | 'affectedFile' | 'code' | 'description';
+
+// Text of a field, cut to a snippet around the match for long fields, with the matched ranges
+export interface SearchHighlight {
+  field: SearchField;
+  text: string;
+  ranges: [number, number][]; // Start and end offsets into text
+}
+
+export interface StepSearchResult {
+  id: string;
+  framework: Framework;
+  from: string;
+  to: string;
+  instruction: string;
+  stepType?: string;
+  affectedFile?: string;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface StepSearchResponse {
+  query: string;
+  total: number; // Matching steps, results holds at most the requested limit
+  results: StepSearchResult[];
+}
@@ -0,0 +1,23 @@
+import { Framework, UpgradeStep } from './upgrade-step';
+
+// Drafts are only visible in the admin UI, published steps are served in upgrade plans
+export type PublicationStatus = 'draft' | 'published';
+
+export const PUBLICATION_STATUSES: PublicationStatus[] = ['draft', 'published'];
+
+// A step as stored by the authoring backend
+export interface StoredUpgradeStep {
+  id: number;
+  framework: Framework;
+  status: PublicationStatus;
+  step: UpgradeStep;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the admin UI sends when it saves a step
+export interface StepSubmission {
+  framework: Framework;
+  status: PublicationStatus;
+  step: UpgradeStep;
+}
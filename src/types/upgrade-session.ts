@@ -0,0 +1,36 @@
+import { ConsolidationMode, Framework, UpgradePath, UpgradeStep } from './upgrade-step';
+import { RuleResult, VerificationStatus } from './verification';
+
+export type StepStatus = 'todo' | 'in-progress' | 'done' | 'skipped';
+
+export const STEP_STATUSES: StepStatus[] = ['todo', 'in-progress', 'done', 'skipped'];
+
+// What the step's verification rules found the last time the project was checked
+export interface StepCheck {
+  status: VerificationStatus;
+  results: RuleResult[];
+  checkedAt: string;
+}
+
+export interface StepProgress {
+  status: StepStatus;
+  note?: string;
+  verification?: StepCheck;
+  updatedAt: string;
+}
+
+// A shared checklist for one upgrade. Steps are resolved once when the session is created,
+// so progress keyed by step index stays valid even if the step data changes later.
+export interface UpgradeSession {
+  id: string;
+  framework: Framework;
+  fromVersion: string;
+  toVersion: string;
+  consolidate?: ConsolidationMode; // How the plan the session was started from merged its steps
+  steps: UpgradeStep[];
+  path?: UpgradePath;
+  warning?: string;
+  progress: Record<string, StepProgress>;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,16 +1,83 @@
+import { StepPreview, UpgradeOperation } from './codemod';
+import { VerificationRule } from './verification';
+
 export interface UpgradeStep {
+  id?: string; // Stable reference from the data, or derived by the repository; merged steps have none but their sources do
   instruction: string;
   detailedDescription: string;
-  from: number;
-  to: number;
+  from: string; // Version the step starts from, e.g. 22.4 or 22.4.2
+  to: string;
+  dependsOn?: string[]; // Ids of steps that have to be done first
   stepType?: string; // Used for grouping similar steps
   affectedFile?: string; // File(s) that this step modifies
+  severity?: StepSeverity;
+  effortHours?: number; // Estimated hands-on time for a developer who knows the app
+  productionRisk?: boolean; // Getting the step wrong can break the site in production, e.g. env or auth changes
+  rollback?: string; // Markdown instructions that undo the step, used by rollback plans
+  irreversible?: boolean; // The step can't be undone safely, e.g. a content or data migration
+  applicable?: boolean; // Set when the plan is checked against a scanned project
+  operations?: UpgradeOperation[]; // Codemods that apply this step to a project
+  verification?: VerificationRule[]; // Checks that tell whether a project has done the step
+  preview?: StepPreview; // Result of running the operations against an uploaded project
+  sources?: StepSource[]; // Original per-version steps a consolidated step was merged from
+  conditions?: ProjectFeatures; // Project features the step only applies to
+  notApplicableReason?: string; // Why `applicable` is false
+}
+
+// Questionnaire answers about the project; a missing answer means "not sure" and rules nothing out
+export interface ProjectFeatures {
+  personalization?: boolean;
+  sxa?: boolean;
+  authentication?: boolean;
+  hosting?: 'xm-cloud' | 'xp';
+  layoutService?: 'graphql' | 'rest';
+}
+
+// breaking: the app doesn't build or run on the new version without it; recommended: deprecations
+// and fixes worth doing during the upgrade; optional: improvements that can wait
+export type StepSeverity = 'breaking' | 'recommended' | 'optional';
+
+// Most severe first
+export const STEP_SEVERITIES: StepSeverity[] = ['breaking', 'recommended', 'optional'];
+
+// A data-file step as it was before consolidation
+export type StepSource = Pick<UpgradeStep, 'id' | 'instruction' | 'detailedDescription' | 'from' | 'to' | 'stepType' | 'affectedFile' | 'severity' | 'effortHours' | 'productionRisk'>;
+
+// How far the repository merges steps: by step type, by affected file, both, or not at all
+export type ConsolidationMode = 'none' | 'type' | 'file' | 'full';
+
+export const CONSOLIDATION_MODES: ConsolidationMode[] = ['none', 'type', 'file', 'full'];
+
+export interface UpgradeStepQuery {
+  consolidate?: ConsolidationMode;
+  features?: ProjectFeatures; // Steps whose conditions don't match are returned as not applicable
 }
 
-export type Framework = 'Next.JS' | 'Angular';
+export type Framework = string; // Id of a framework registry entry, e.g. nextjs
 
 export interface UpgradeRequest {
   framework: Framework;
-  fromVersion: number;
-  toVersion: number;
+  fromVersion: string;
+  toVersion: string;
+  projectFiles?: string[]; // Files of a scanned project, used to mark steps as not applicable
+  consolidate?: ConsolidationMode;
+  features?: ProjectFeatures;
+}
+
+export interface VersionRange {
+  from: string;
+  to: string;
+}
+
+// Route through the version graph: the hops that have steps and the ranges nothing covers
+export interface UpgradePath {
+  segments: VersionRange[];
+  gaps: VersionRange[];
+}
+
+export interface UpgradePlan {
+  steps: UpgradeStep[];
+  path: UpgradePath;
+  hasPath: boolean;
+  warning?: string;
 }
@@ -0,0 +1,64 @@
+// Rules that tell whether an upgrade step was done, checked against a project snapshot
+
+// package.json declares the package at this version or later
+export interface PackageVersionRule {
+  type: 'package-version';
+  package: string;
+  version?: string; // Defaults to the step's "to" version
+}
+
+// The variable is set in an env file; its value is never reported
+export interface EnvVarRule {
+  type: 'env-var';
+  name: string;
+  file?: string; // Defaults to .env
+}
+
+// A JSON file (comments allowed) has a value at the pointer, equal to `value` when given
+export interface JsonValueRule {
+  type: 'json-value';
+  file: string;
+  path: string; // JSON pointer, e.g. /compilerOptions/moduleResolution
+  value?: unknown;
+}
+
+// A file matching the path or glob contains the pattern
+export interface FileContainsRule {
+  type: 'file-contains';
+  file: string;
+  pattern: string;
+  flags?: string;
+}
+
+// The file no longer imports the name (or anything, without a name) from the module
+export interface NoImportRule {
+  type: 'no-import';
+  file: string;
+  module: string;
+  name?: string;
+}
+
+export type VerificationRule =
+  | PackageVersionRule
+  | EnvVarRule
+  | JsonValueRule
+  | FileContainsRule
+  | NoImportRule;
+
+// unknown: the snapshot doesn't have what the rule needs, e.g. only a package.json was uploaded
+export type VerificationStatus = 'pass' | 'fail' | 'unknown';
+
+export interface RuleResult {
+  rule: VerificationRule;
+  status: VerificationStatus;
+  evidence: string; // What was found, e.g. "package.json has @sitecore-jss/sitecore-jss-nextjs ^22.9.0"
+}
+
+// A step fails when one of its rules fails, and passes only when all of them pass
+export interface StepVerification {
+  stepIndex: number; // Position in the plan or session the rules were run for
+  stepId?: string;
+  instruction: string;
+  status: VerificationStatus;
+  results: RuleResult[];
+}